@@ -0,0 +1,38 @@
+export const AuditEventEnum = {
+	REGISTER: "REGISTER",
+	LOGIN: "LOGIN",
+	LOGOUT: "LOGOUT",
+	LOGOUT_ALL: "LOGOUT_ALL",
+	TOKEN_REFRESH: "TOKEN_REFRESH",
+	EMAIL_VERIFY: "EMAIL_VERIFY",
+	PASSWORD_CHANGE: "PASSWORD_CHANGE",
+	PASSWORD_RESET_REQUEST: "PASSWORD_RESET_REQUEST",
+	PASSWORD_RESET: "PASSWORD_RESET",
+	EMAIL_CHANGE_REQUEST: "EMAIL_CHANGE_REQUEST",
+	EMAIL_CHANGE: "EMAIL_CHANGE",
+	EMAIL_CHANGE_REVERT: "EMAIL_CHANGE_REVERT",
+	MFA_ENABLE: "MFA_ENABLE",
+	MFA_DISABLE: "MFA_DISABLE",
+	MFA_VERIFY: "MFA_VERIFY",
+	MFA_BACKUP_CODES_REGENERATE: "MFA_BACKUP_CODES_REGENERATE",
+	SESSION_REVOKE: "SESSION_REVOKE",
+	SESSION_REVOKE_OTHERS: "SESSION_REVOKE_OTHERS",
+	ACCOUNT_LOCK: "ACCOUNT_LOCK",
+	ACCOUNT_UNLOCK: "ACCOUNT_UNLOCK",
+	ACCOUNT_DISABLE: "ACCOUNT_DISABLE",
+	ACCOUNT_ENABLE: "ACCOUNT_ENABLE",
+	SESSION_REVOKE_ALL: "SESSION_REVOKE_ALL",
+	MFA_RESET: "MFA_RESET",
+	ROLE_CHANGE: "ROLE_CHANGE",
+	ACCOUNT_DELETION_REQUEST: "ACCOUNT_DELETION_REQUEST",
+	ACCOUNT_DELETION_CANCEL: "ACCOUNT_DELETION_CANCEL",
+} as const;
+
+export type AuditEventEnumType = keyof typeof AuditEventEnum;
+
+export const AuditOutcomeEnum = {
+	SUCCESS: "SUCCESS",
+	FAILURE: "FAILURE",
+} as const;
+
+export type AuditOutcomeEnumType = keyof typeof AuditOutcomeEnum;
@@ -0,0 +1,24 @@
+export const RoleEnum = {
+	USER: "user",
+	SUPPORT: "support",
+	ADMIN: "admin",
+} as const;
+
+export type RoleType = (typeof RoleEnum)[keyof typeof RoleEnum];
+
+export const PermissionEnum = {
+	USERS_READ: "users:read",
+	USERS_WRITE: "users:write",
+	USERS_DISABLE: "users:disable",
+	USERS_UNLOCK: "users:unlock",
+	USERS_RESET_PASSWORD: "users:reset-password",
+	USERS_DELETE: "users:delete",
+	SESSIONS_READ: "sessions:read",
+	SESSIONS_REVOKE: "sessions:revoke",
+	MFA_RESET: "mfa:reset",
+	AUDIT_READ: "audit:read",
+	ROLES_ASSIGN: "roles:assign",
+} as const;
+
+export type PermissionType =
+	(typeof PermissionEnum)[keyof typeof PermissionEnum];
@@ -0,0 +1,6 @@
+export const UserStatusEnum = {
+	ACTIVE: "ACTIVE",
+	DISABLED: "DISABLED",
+} as const;
+
+export type UserStatusEnumType = keyof typeof UserStatusEnum;
@@ -0,0 +1,10 @@
+export const VerificationCodeEnum = {
+	EMAIL_VERIFICATION: "EMAIL_VERIFICATION",
+	PASSWORD_RESET: "PASSWORD_RESET",
+	EMAIL_CHANGE: "EMAIL_CHANGE",
+	EMAIL_CHANGE_REVERT: "EMAIL_CHANGE_REVERT",
+	// `jti` of an MFA login challenge, consumed when the login completes
+	MFA_CHALLENGE: "MFA_CHALLENGE",
+} as const;
+
+export type VerificationCodeEnumType = keyof typeof VerificationCodeEnum;
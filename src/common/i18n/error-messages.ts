@@ -0,0 +1,157 @@
+import type { Request, Response } from "express";
+import {
+	ErrorCodeEnum,
+	type ErrorCodeEnumType,
+} from "../enums/error-code.enum";
+import { de } from "./locales/de";
+import { es } from "./locales/es";
+import { fr } from "./locales/fr";
+
+/**
+ * Localized Error Messages
+ *
+ * - English is the source language: messages thrown in code are English
+ * - Other locales translate by error code; codes without an entry keep the thrown message
+ * - `{name}` placeholders are filled from the error's `details` (or the
+ *   parameters a handler passes instead)
+ * - An entry may list variants, most specific first; the first whose
+ *   placeholders can all be filled wins
+ */
+
+// One message, or variants tried in order
+export type ErrorMessage = string | readonly string[];
+
+export type ErrorMessageCatalog = Partial<
+	Record<ErrorCodeEnumType, ErrorMessage>
+>;
+
+export const DEFAULT_LOCALE = "en";
+
+const catalogs: Record<string, ErrorMessageCatalog> = { de, es, fr };
+
+export const SUPPORTED_LOCALES = [DEFAULT_LOCALE, ...Object.keys(catalogs)];
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Best supported match for a language tag: exact, then its primary language
+ */
+const matchLocale = (tag?: string | null) => {
+	if (!tag) return undefined;
+
+	const lower = tag.toLowerCase();
+	return (
+		SUPPORTED_LOCALES.find((locale) => locale === lower) ??
+		SUPPORTED_LOCALES.find((locale) => locale === lower.split("-")[0])
+	);
+};
+
+/**
+ * The signed-in user's saved locale, then `Accept-Language`, then English
+ */
+export const resolveLocale = (req: Request): string =>
+	matchLocale(req.user?.locale) ||
+	req.acceptsLanguages(SUPPORTED_LOCALES) ||
+	DEFAULT_LOCALE;
+
+const formatParam = (value: unknown, locale: string, timeZone: string) => {
+	if (Array.isArray(value)) {
+		return value.every((item) => typeof item !== "object")
+			? value.join(", ")
+			: undefined;
+	}
+	if (typeof value === "string" && ISO_DATE_TIME.test(value)) {
+		return new Intl.DateTimeFormat(locale, {
+			dateStyle: "medium",
+			timeStyle: "long",
+			timeZone,
+		}).format(new Date(value));
+	}
+	if (typeof value === "string" || typeof value === "number") {
+		return String(value);
+	}
+	return undefined;
+};
+
+const interpolate = (
+	template: string,
+	details: unknown,
+	locale: string,
+	timeZone: string,
+) => {
+	const params =
+		details && typeof details === "object" && !Array.isArray(details)
+			? (details as Record<string, unknown>)
+			: {};
+	let complete = true;
+
+	const message = template.replace(PLACEHOLDER, (_match, name: string) => {
+		const value = formatParam(params[name], locale, timeZone);
+		if (value === undefined) complete = false;
+		return value ?? "";
+	});
+
+	return complete ? message : undefined;
+};
+
+type TranslateOptions = {
+	locale: string;
+	// Used when the locale has no usable entry for the code
+	fallback: string;
+	details?: unknown;
+	timeZone?: string;
+};
+
+export const translateError = (
+	code: ErrorCodeEnumType,
+	{ locale, fallback, details, timeZone = "UTC" }: TranslateOptions,
+) => {
+	const entry = catalogs[locale]?.[code];
+	if (!entry) return fallback;
+
+	for (const template of [entry].flat()) {
+		const message = interpolate(template, details, locale, timeZone);
+		if (message !== undefined) return message;
+	}
+	return fallback;
+};
+
+/**
+ * Translate an error response message for the request's locale
+ * Sets `Content-Language` and varies the response on `Accept-Language`.
+ */
+export const localizeErrorMessage = (
+	req: Request,
+	res: Response,
+	code: ErrorCodeEnumType,
+	fallback: string,
+	details?: unknown,
+) => {
+	const locale = resolveLocale(req);
+
+	res.vary("Accept-Language");
+	res.setHeader("Content-Language", locale);
+
+	return translateError(code, {
+		locale,
+		fallback,
+		details,
+		timeZone: req.user?.timezone,
+	});
+};
+
+/**
+ * Codes each locale has no translation for, e.g. `{ de: ["FILE_TOO_LARGE"] }`
+ * Locales with nothing missing are left out.
+ */
+export const findMissingTranslations = () => {
+	const codes = Object.values(ErrorCodeEnum);
+	const missing: Record<string, ErrorCodeEnumType[]> = {};
+
+	for (const [locale, catalog] of Object.entries(catalogs)) {
+		const codesMissing = codes.filter((code) => !catalog[code]);
+		if (codesMissing.length) missing[locale] = codesMissing;
+	}
+	return missing;
+};
@@ -0,0 +1,87 @@
+import type { ErrorMessageCatalog } from "../error-messages";
+
+export const de: ErrorMessageCatalog = {
+	// Client Errors (4xx)
+	USR_400: "Die Anfrage ist ungültig oder fehlerhaft",
+	USR_404: [
+		"Der Endpunkt {method} {path} wurde nicht gefunden",
+		"Die angeforderte Ressource wurde nicht gefunden",
+	],
+	USR_405: "Die HTTP-Methode ist für diesen Endpunkt nicht zulässig",
+	USR_409:
+		"Die Anfrage steht im Konflikt mit dem aktuellen Zustand der Ressource",
+	USR_422: "Die Anfrage ist korrekt aufgebaut, enthält aber inhaltliche Fehler",
+
+	// Authentication & Authorization Errors
+	AUTH_401: "Anmeldung erforderlich. Bitte geben Sie gültige Zugangsdaten an",
+	AUTH_403: "Sie haben keine Berechtigung für diese Ressource",
+	AUTH_USER_NOT_FOUND: "Benutzer nicht gefunden",
+	AUTH_EMAIL_ALREADY_EXISTS: "Diese E-Mail-Adresse wird bereits verwendet",
+	AUTH_INVALID_TOKEN: "Ungültiges oder abgelaufenes Token",
+	AUTH_TOKEN_NOT_FOUND: "Es wurde kein Authentifizierungstoken angegeben",
+	AUTH_TOKEN_EXPIRED: "Das Token ist abgelaufen",
+	AUTH_INVALID_CREDENTIALS: "Ungültige Zugangsdaten",
+	AUTH_ACCOUNT_LOCKED: [
+		"Zu viele fehlgeschlagene Versuche. Bitte versuchen Sie es nach {unlockAt} erneut",
+		"Zu viele fehlgeschlagene Versuche. Bitte versuchen Sie es später erneut",
+	],
+	AUTH_ACCOUNT_DISABLED: "Dieses Konto wurde deaktiviert",
+	AUTH_INSUFFICIENT_PERMISSIONS: [
+		"Fehlende Berechtigung: {missingPermissions}",
+		"Sie haben keine Berechtigung, diese Aktion auszuführen",
+	],
+
+	// Validation Errors
+	VAL_400: "Validierung fehlgeschlagen. Bitte überprüfen Sie Ihre Eingaben",
+	VAL_REQUIRED_FIELD: "Ein Pflichtfeld fehlt",
+	VAL_INVALID_FORMAT: "Ungültiges Format",
+	VAL_INVALID_TYPE: "Ungültiger Datentyp",
+	VAL_OUT_OF_RANGE: "Ein Wert liegt außerhalb des zulässigen Bereichs",
+	VAL_DUPLICATE_VALUE: "Dieser Wert ist bereits vorhanden",
+
+	// Rate Limiting
+	RATE_429: "Zu viele Anfragen. Bitte versuchen Sie es später erneut",
+	RATE_LIMIT_EXCEEDED: [
+		"Zu viele Anfragen. Bitte versuchen Sie es nach {resetAt} erneut",
+		"Bitte warten Sie bis {retryAt}, bevor Sie es erneut versuchen",
+		"Zu viele Anfragen. Bitte versuchen Sie es später erneut",
+	],
+
+	// Database Errors
+	DB_500: "Datenbankfehler. Bitte versuchen Sie es später erneut",
+	DB_CONNECTION_ERROR:
+		"Keine Verbindung zur Datenbank. Bitte versuchen Sie es später erneut",
+	DB_QUERY_ERROR: "Die Datenbankabfrage ist fehlgeschlagen",
+	DB_TRANSACTION_ERROR: "Die Datenbanktransaktion ist fehlgeschlagen",
+	DB_DUPLICATE_KEY: [
+		"Es existiert bereits ein Eintrag mit diesem Wert für {duplicateFields}",
+		"Es existiert bereits ein Eintrag mit diesem Wert",
+	],
+	DB_VALIDATION_ERROR: "Validierung fehlgeschlagen",
+	DB_NOT_FOUND: "Der Datensatz wurde nicht gefunden",
+
+	// External/Third-party API Errors
+	EXT_502: "Ein externer Dienst hat eine ungültige Antwort geliefert",
+	EXT_503:
+		"Der Dienst ist vorübergehend nicht verfügbar. Bitte versuchen Sie es später erneut",
+	EXT_504:
+		"Zeitüberschreitung bei der Anfrage. Bitte versuchen Sie es später erneut",
+	EXT_API_ERROR:
+		"Fehler bei einem externen Dienst. Bitte versuchen Sie es später erneut",
+	EXT_SERVICE_UNAVAILABLE:
+		"Ein externer Dienst ist nicht erreichbar. Bitte versuchen Sie es später erneut",
+	EXT_TIMEOUT: "Ein externer Dienst hat nicht rechtzeitig geantwortet",
+
+	// Server Errors (5xx)
+	SRV_500: "Ein unerwarteter Fehler ist aufgetreten",
+	SRV_501: "Diese Funktion ist noch nicht verfügbar",
+	SRV_INTERNAL_ERROR:
+		"Interner Serverfehler. Bitte versuchen Sie es später erneut",
+	SRV_UNHANDLED_ERROR: "Ein unerwarteter Fehler ist aufgetreten",
+
+	// File Upload Errors
+	FILE_UPLOAD_ERROR: "Fehler beim Hochladen der Datei",
+	FILE_TOO_LARGE: "Die Datei überschreitet die maximal zulässige Größe",
+	FILE_INVALID_TYPE: "Dieser Dateityp ist nicht erlaubt",
+	FILE_UPLOAD_FAILED: "Die Datei konnte nicht hochgeladen werden",
+};
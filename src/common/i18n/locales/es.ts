@@ -0,0 +1,86 @@
+import type { ErrorMessageCatalog } from "../error-messages";
+
+export const es: ErrorMessageCatalog = {
+	// Client Errors (4xx)
+	USR_400: "La solicitud no es válida o está mal formada",
+	USR_404: [
+		"No se encontró el endpoint {method} {path}",
+		"No se encontró el recurso solicitado",
+	],
+	USR_405: "El método HTTP no está permitido para este endpoint",
+	USR_409: "La solicitud entra en conflicto con el estado actual del recurso",
+	USR_422: "La solicitud está bien formada pero contiene errores semánticos",
+
+	// Authentication & Authorization Errors
+	AUTH_401: "Se requiere autenticación. Proporcione credenciales válidas",
+	AUTH_403: "No tiene permiso para acceder a este recurso",
+	AUTH_USER_NOT_FOUND: "Usuario no encontrado",
+	AUTH_EMAIL_ALREADY_EXISTS: "Esta dirección de correo ya está en uso",
+	AUTH_INVALID_TOKEN: "Token no válido o caducado",
+	AUTH_TOKEN_NOT_FOUND: "No se proporcionó ningún token de autenticación",
+	AUTH_TOKEN_EXPIRED: "El token ha caducado",
+	AUTH_INVALID_CREDENTIALS: "Credenciales no válidas",
+	AUTH_ACCOUNT_LOCKED: [
+		"Demasiados intentos fallidos. Vuelva a intentarlo después de {unlockAt}",
+		"Demasiados intentos fallidos. Vuelva a intentarlo más tarde",
+	],
+	AUTH_ACCOUNT_DISABLED: "Esta cuenta ha sido desactivada",
+	AUTH_INSUFFICIENT_PERMISSIONS: [
+		"Falta el permiso: {missingPermissions}",
+		"No tiene permiso para realizar esta acción",
+	],
+
+	// Validation Errors
+	VAL_400: "La validación ha fallado. Revise los datos introducidos",
+	VAL_REQUIRED_FIELD: "Falta un campo obligatorio",
+	VAL_INVALID_FORMAT: "Formato no válido",
+	VAL_INVALID_TYPE: "Tipo de dato no válido",
+	VAL_OUT_OF_RANGE: "Un valor está fuera del rango permitido",
+	VAL_DUPLICATE_VALUE: "Este valor ya existe",
+
+	// Rate Limiting
+	RATE_429: "Demasiadas solicitudes. Vuelva a intentarlo más tarde",
+	RATE_LIMIT_EXCEEDED: [
+		"Demasiadas solicitudes. Vuelva a intentarlo después de {resetAt}",
+		"Espere hasta {retryAt} antes de volver a intentarlo",
+		"Demasiadas solicitudes. Vuelva a intentarlo más tarde",
+	],
+
+	// Database Errors
+	DB_500: "Se produjo un error de base de datos. Vuelva a intentarlo más tarde",
+	DB_CONNECTION_ERROR:
+		"No se pudo conectar con la base de datos. Vuelva a intentarlo más tarde",
+	DB_QUERY_ERROR: "La consulta a la base de datos ha fallado",
+	DB_TRANSACTION_ERROR: "La transacción de base de datos ha fallado",
+	DB_DUPLICATE_KEY: [
+		"Ya existe un recurso con este valor para {duplicateFields}",
+		"Ya existe un recurso con este valor",
+	],
+	DB_VALIDATION_ERROR: "La validación ha fallado",
+	DB_NOT_FOUND: "No se encontró el registro",
+
+	// External/Third-party API Errors
+	EXT_502: "Un servicio externo devolvió una respuesta no válida",
+	EXT_503:
+		"El servicio no está disponible temporalmente. Vuelva a intentarlo más tarde",
+	EXT_504:
+		"La solicitud ha superado el tiempo de espera. Vuelva a intentarlo más tarde",
+	EXT_API_ERROR:
+		"Se produjo un error en un servicio externo. Vuelva a intentarlo más tarde",
+	EXT_SERVICE_UNAVAILABLE:
+		"Un servicio externo no está disponible. Vuelva a intentarlo más tarde",
+	EXT_TIMEOUT: "Un servicio externo no respondió a tiempo",
+
+	// Server Errors (5xx)
+	SRV_500: "Se produjo un error inesperado",
+	SRV_501: "Esta función aún no está disponible",
+	SRV_INTERNAL_ERROR:
+		"Se produjo un error interno del servidor. Vuelva a intentarlo más tarde",
+	SRV_UNHANDLED_ERROR: "Se produjo un error inesperado",
+
+	// File Upload Errors
+	FILE_UPLOAD_ERROR: "Error al subir el archivo",
+	FILE_TOO_LARGE: "El archivo supera el tamaño máximo permitido",
+	FILE_INVALID_TYPE: "Este tipo de archivo no está permitido",
+	FILE_UPLOAD_FAILED: "No se pudo subir el archivo",
+};
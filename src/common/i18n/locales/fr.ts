@@ -0,0 +1,87 @@
+import type { ErrorMessageCatalog } from "../error-messages";
+
+export const fr: ErrorMessageCatalog = {
+	// Client Errors (4xx)
+	USR_400: "La requête est invalide ou mal formée",
+	USR_404: [
+		"Le point de terminaison {method} {path} est introuvable",
+		"La ressource demandée est introuvable",
+	],
+	USR_405: "La méthode HTTP n'est pas autorisée pour ce point de terminaison",
+	USR_409: "La requête est en conflit avec l'état actuel de la ressource",
+	USR_422: "La requête est bien formée mais contient des erreurs sémantiques",
+
+	// Authentication & Authorization Errors
+	AUTH_401:
+		"Authentification requise. Veuillez fournir des identifiants valides",
+	AUTH_403: "Vous n'avez pas l'autorisation d'accéder à cette ressource",
+	AUTH_USER_NOT_FOUND: "Utilisateur introuvable",
+	AUTH_EMAIL_ALREADY_EXISTS: "Cette adresse e-mail est déjà utilisée",
+	AUTH_INVALID_TOKEN: "Jeton invalide ou expiré",
+	AUTH_TOKEN_NOT_FOUND: "Aucun jeton d'authentification fourni",
+	AUTH_TOKEN_EXPIRED: "Le jeton a expiré",
+	AUTH_INVALID_CREDENTIALS: "Identifiants invalides",
+	AUTH_ACCOUNT_LOCKED: [
+		"Trop de tentatives échouées. Veuillez réessayer après {unlockAt}",
+		"Trop de tentatives échouées. Veuillez réessayer plus tard",
+	],
+	AUTH_ACCOUNT_DISABLED: "Ce compte a été désactivé",
+	AUTH_INSUFFICIENT_PERMISSIONS: [
+		"Autorisation manquante : {missingPermissions}",
+		"Vous n'avez pas l'autorisation d'effectuer cette action",
+	],
+
+	// Validation Errors
+	VAL_400: "La validation a échoué. Veuillez vérifier votre saisie",
+	VAL_REQUIRED_FIELD: "Un champ obligatoire est manquant",
+	VAL_INVALID_FORMAT: "Format invalide",
+	VAL_INVALID_TYPE: "Type de données invalide",
+	VAL_OUT_OF_RANGE: "Une valeur est en dehors de la plage autorisée",
+	VAL_DUPLICATE_VALUE: "Cette valeur existe déjà",
+
+	// Rate Limiting
+	RATE_429: "Trop de requêtes. Veuillez réessayer plus tard",
+	RATE_LIMIT_EXCEEDED: [
+		"Trop de requêtes. Veuillez réessayer après {resetAt}",
+		"Veuillez attendre {retryAt} avant de réessayer",
+		"Trop de requêtes. Veuillez réessayer plus tard",
+	],
+
+	// Database Errors
+	DB_500:
+		"Une erreur de base de données est survenue. Veuillez réessayer plus tard",
+	DB_CONNECTION_ERROR:
+		"Impossible de se connecter à la base de données. Veuillez réessayer plus tard",
+	DB_QUERY_ERROR: "La requête à la base de données a échoué",
+	DB_TRANSACTION_ERROR: "La transaction de base de données a échoué",
+	DB_DUPLICATE_KEY: [
+		"Une ressource avec cette valeur existe déjà pour {duplicateFields}",
+		"Une ressource avec cette valeur existe déjà",
+	],
+	DB_VALIDATION_ERROR: "La validation a échoué",
+	DB_NOT_FOUND: "L'enregistrement est introuvable",
+
+	// External/Third-party API Errors
+	EXT_502: "Un service externe a renvoyé une réponse invalide",
+	EXT_503:
+		"Le service est temporairement indisponible. Veuillez réessayer plus tard",
+	EXT_504: "La requête a expiré. Veuillez réessayer plus tard",
+	EXT_API_ERROR:
+		"Une erreur de service externe est survenue. Veuillez réessayer plus tard",
+	EXT_SERVICE_UNAVAILABLE:
+		"Un service externe est indisponible. Veuillez réessayer plus tard",
+	EXT_TIMEOUT: "Un service externe n'a pas répondu à temps",
+
+	// Server Errors (5xx)
+	SRV_500: "Une erreur inattendue est survenue",
+	SRV_501: "Cette fonctionnalité n'est pas encore disponible",
+	SRV_INTERNAL_ERROR:
+		"Une erreur interne du serveur est survenue. Veuillez réessayer plus tard",
+	SRV_UNHANDLED_ERROR: "Une erreur inattendue est survenue",
+
+	// File Upload Errors
+	FILE_UPLOAD_ERROR: "Erreur lors de l'envoi du fichier",
+	FILE_TOO_LARGE: "Le fichier dépasse la taille maximale autorisée",
+	FILE_INVALID_TYPE: "Ce type de fichier n'est pas autorisé",
+	FILE_UPLOAD_FAILED: "L'envoi du fichier a échoué",
+};
@@ -0,0 +1,94 @@
+import type { Request, Router } from "express";
+import type { ParamsDictionary } from "express-serve-static-core";
+import type { ParsedQs } from "qs";
+import type { HealthCheck } from "../../modules/health/health.service";
+import type { PersonalDataHandler } from "../../modules/user/personal-data.service";
+
+/**
+ * Request type for controllers mounted behind `authenticate`
+ */
+export interface AuthenticatedRequest<
+	P = ParamsDictionary,
+	ResBody = unknown,
+	ReqBody = unknown,
+	ReqQuery = ParsedQs,
+> extends Request<P, ResBody, ReqBody, ReqQuery> {
+	user: Express.User;
+	sessionId: string;
+}
+
+export interface RegisterDto {
+	name: string;
+	email: string;
+	password: string;
+	confirmPassword: string;
+}
+
+export interface SessionContext {
+	userAgent?: string;
+	ipAddress?: string;
+}
+
+export interface LoginDto extends SessionContext {
+	email: string;
+	password: string;
+}
+
+export interface VerifyMfaLoginDto extends SessionContext {
+	mfaToken: string;
+	code: string;
+}
+
+export interface ResetPasswordDto {
+	code: string;
+	password: string;
+	confirmPassword: string;
+}
+
+export interface UpdateProfileDto {
+	name?: string;
+	// null clears the field
+	avatarUrl?: string | null;
+	timezone?: string | null;
+	locale?: string | null;
+}
+
+export interface ChangePasswordDto {
+	currentPassword: string;
+	newPassword: string;
+}
+
+export interface ChangeEmailDto {
+	newEmail: string;
+	password: string;
+}
+
+/**
+ * Contract every `src/modules/<name>/<name>.module.ts` export follows
+ * Build one with `defineModule` so the module loader can discover it.
+ */
+export interface AppModule {
+	// Path segment under `${BASE_PATH}/v<version>/`
+	name: string;
+	router: Router;
+	version?: number;
+	// Absolute mount path for unversioned modules such as /health
+	path?: string;
+	// Set false to skip mounting, e.g. behind a feature flag
+	enabled?: boolean;
+	// Adds Deprecation/Sunset/Link headers to every response of this version
+	deprecation?: {
+		since?: Date;
+		sunset?: Date;
+	};
+	// Runs after the database connects, in discovery order
+	init?: () => Promise<void> | void;
+	// Runs during graceful shutdown, in reverse discovery order
+	shutdown?: () => Promise<void> | void;
+	healthChecks?: HealthCheck[];
+	// Export and erase handlers for the user data this module stores
+	personalData?: PersonalDataHandler;
+	// Called for every mounted module, this one included, e.g. to collect
+	// what other modules declare without the loader knowing about it
+	onModuleMount?: (module: AppModule) => void;
+}
@@ -0,0 +1,212 @@
+import type { ZodTypeAny } from "zod";
+import {
+	ignoreOverride,
+	type Options,
+	zodToJsonSchema,
+} from "zod-to-json-schema";
+import { Env } from "../../configs/env.config";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { ACCESS_TOKEN_COOKIE } from "../utils/cookie";
+import { PROBLEM_JSON } from "../utils/error-response";
+import { openApiRegistry, type RegisteredRoute } from "./registry";
+import "./schemas";
+
+type JsonSchema = Record<string, unknown>;
+
+const COMPONENTS_PATH = "#/components/schemas/";
+
+// The library is typed against "zod/v3"; comparing those types with "zod"
+// recurses past the compiler's limit, so pin the signature we use
+const zodToJson = zodToJsonSchema as unknown as (
+	schema: ZodTypeAny,
+	options: Partial<Options<"jsonSchema7">>,
+) => JsonSchema;
+
+const AUTH_ERRORS = [
+	ErrorCodeEnum.AUTH_TOKEN_NOT_FOUND,
+	ErrorCodeEnum.AUTH_INVALID_TOKEN,
+	ErrorCodeEnum.AUTH_TOKEN_EXPIRED,
+];
+
+/**
+ * Convert a zod schema, turning registered components into `$ref`s
+ * Everything else is inlined; zod-to-json-schema's own refs would point
+ * inside whichever document they were first seen in.
+ */
+const toJsonSchema = (schema: ZodTypeAny, self?: string): JsonSchema => {
+	const componentNames = new Map<unknown, string>();
+	for (const [name, component] of openApiRegistry.getComponents()) {
+		if (name !== self) componentNames.set(component._def, name);
+	}
+
+	const { $schema: _schema, ...json } = zodToJson(schema, {
+		target: "jsonSchema7",
+		$refStrategy: "none",
+		removeAdditionalStrategy: "strict",
+		pipeStrategy: "input",
+		override: (def) => {
+			const name = componentNames.get(def);
+			return name ? { $ref: `${COMPONENTS_PATH}${name}` } : ignoreOverride;
+		},
+	});
+
+	return json;
+};
+
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, "{$1}");
+
+const buildParameters = (route: RegisteredRoute) => {
+	const parameters: JsonSchema[] = [];
+
+	for (const location of ["path", "query"] as const) {
+		const schema =
+			location === "path" ? route.request?.params : route.request?.query;
+		if (!schema) continue;
+
+		const json = toJsonSchema(schema);
+		const properties = (json.properties ?? {}) as Record<string, JsonSchema>;
+		const required = new Set((json.required ?? []) as string[]);
+
+		for (const [name, property] of Object.entries(properties)) {
+			parameters.push({
+				name,
+				in: location,
+				required: location === "path" || required.has(name),
+				schema: property,
+			});
+		}
+	}
+
+	// Path segments that are not validated are still plain string parameters
+	for (const [, name] of route.fullPath.matchAll(/:(\w+)/g)) {
+		if (!parameters.some((p) => p.in === "path" && p.name === name)) {
+			parameters.push({
+				name,
+				in: "path",
+				required: true,
+				schema: { type: "string" },
+			});
+		}
+	}
+
+	return parameters;
+};
+
+const errorSchema = (component: string, codes: string[]) => ({
+	schema: {
+		allOf: [
+			{ $ref: `${COMPONENTS_PATH}${component}` },
+			{ properties: { errorCode: { enum: codes } } },
+		],
+	},
+});
+
+// Both formats are available through the Accept header
+const errorResponse = (codes: string[]) => ({
+	description: `Error codes: ${codes.join(", ")}`,
+	content: {
+		"application/json": errorSchema("ErrorResponse", codes),
+		[PROBLEM_JSON]: errorSchema("ProblemDetails", codes),
+	},
+});
+
+const buildResponses = (route: RegisteredRoute) => {
+	const responses: Record<string, unknown> = {};
+
+	for (const [status, response] of Object.entries(route.responses)) {
+		responses[status] = {
+			description: response.description,
+			...(response.schema && {
+				content: {
+					"application/json": { schema: toJsonSchema(response.schema) },
+				},
+			}),
+		};
+	}
+
+	// Errors every route of this kind can produce, merged with declared ones
+	const errors: Record<number, Set<string>> = {};
+	const addErrors = (status: number, codes: readonly string[]) => {
+		errors[status] ??= new Set();
+		for (const code of codes) errors[status].add(code);
+	};
+
+	if (route.request) addErrors(400, [ErrorCodeEnum.VAL_400]);
+	if (route.auth) addErrors(401, AUTH_ERRORS);
+	if (route.fullPath.startsWith(Env.BASE_PATH)) {
+		addErrors(429, [ErrorCodeEnum.RATE_LIMIT_EXCEEDED]);
+	}
+	for (const [status, codes] of Object.entries(route.errors ?? {})) {
+		addErrors(Number(status), codes);
+	}
+	addErrors(500, [ErrorCodeEnum.SRV_500]);
+
+	for (const [status, codes] of Object.entries(errors)) {
+		responses[status] = errorResponse([...codes]);
+	}
+
+	return responses;
+};
+
+const buildOperation = (route: RegisteredRoute) => {
+	const parameters = buildParameters(route);
+
+	return {
+		operationId: route.operationId,
+		summary: route.summary,
+		...(route.description && { description: route.description }),
+		tags: [route.tag],
+		...(route.auth && {
+			security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+		}),
+		...(parameters.length && { parameters }),
+		...(route.request?.body && {
+			requestBody: {
+				required: true,
+				content: {
+					"application/json": { schema: toJsonSchema(route.request.body) },
+				},
+			},
+		}),
+		responses: buildResponses(route),
+	};
+};
+
+/**
+ * Assemble the OpenAPI 3.1 document from everything registered so far
+ */
+export const buildOpenApiDocument = () => {
+	const paths: Record<string, Record<string, unknown>> = {};
+
+	for (const route of openApiRegistry.getRoutes()) {
+		const path = toOpenApiPath(route.fullPath);
+		paths[path] ??= {};
+		paths[path][route.method] = buildOperation(route);
+	}
+
+	const schemas = Object.fromEntries(
+		[...openApiRegistry.getComponents()].map(([name, schema]) => [
+			name,
+			toJsonSchema(schema, name),
+		]),
+	);
+
+	return {
+		openapi: "3.1.0",
+		info: {
+			title: `${Env.APP_NAME} API`,
+			version: process.env.npm_package_version ?? "1.0.0",
+		},
+		tags: [
+			...new Set(openApiRegistry.getRoutes().map((route) => route.tag)),
+		].map((name) => ({ name })),
+		paths,
+		components: {
+			schemas,
+			securitySchemes: {
+				bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+				cookieAuth: { type: "apiKey", in: "cookie", name: ACCESS_TOKEN_COOKIE },
+			},
+		},
+	};
+};
@@ -0,0 +1,64 @@
+import type { ZodTypeAny } from "zod";
+import type { ErrorCodeEnumType } from "../enums/error-code.enum";
+
+export type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+
+export type RouteDoc = {
+	method: HttpMethod;
+	// Express-style path relative to the group's base path, e.g. "/:userId/unlock"
+	path: string;
+	operationId: string;
+	summary: string;
+	description?: string;
+	// Route sits behind `authenticate`
+	auth?: boolean;
+	request?: {
+		body?: ZodTypeAny;
+		query?: ZodTypeAny;
+		params?: ZodTypeAny;
+	};
+	responses: Record<number, { description: string; schema?: ZodTypeAny }>;
+	// Error codes this route can return, grouped by HTTP status
+	errors?: Record<number, ErrorCodeEnumType[]>;
+};
+
+export type RegisteredRoute = RouteDoc & {
+	fullPath: string;
+	tag: string;
+};
+
+const routes: RegisteredRoute[] = [];
+const components = new Map<string, ZodTypeAny>();
+
+export const openApiRegistry = {
+	/**
+	 * Document the routes of one router
+	 *
+	 * @example
+	 * openApiRegistry.registerRoutes({ basePath: apiPath("auth"), tag: "Auth" }, [
+	 *   { method: "post", path: "/login", operationId: "login", summary: "Log in", ... },
+	 * ]);
+	 */
+	registerRoutes: (
+		group: { basePath: string; tag: string },
+		docs: RouteDoc[],
+	) => {
+		for (const doc of docs) {
+			const fullPath = `${group.basePath}${doc.path === "/" ? "" : doc.path}`;
+			routes.push({ ...doc, fullPath: fullPath || "/", tag: group.tag });
+		}
+	},
+
+	/**
+	 * Name a schema so every use of it becomes a `$ref` to
+	 * `#/components/schemas/<name>`
+	 */
+	registerComponent: <T extends ZodTypeAny>(name: string, schema: T): T => {
+		components.set(name, schema);
+		return schema;
+	},
+
+	getRoutes: (): readonly RegisteredRoute[] => routes,
+
+	getComponents: (): ReadonlyMap<string, ZodTypeAny> => components,
+};
@@ -0,0 +1,179 @@
+import { z } from "zod";
+import { AuditEventEnum, AuditOutcomeEnum } from "../enums/audit-event.enum";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { RoleEnum } from "../enums/role.enum";
+import { UserStatusEnum } from "../enums/user-status.enum";
+import type { ListSpec } from "../utils/pagination";
+import { openApiRegistry } from "./registry";
+
+/**
+ * Response shapes shared across modules
+ * These document the API only; responses are not validated against them.
+ */
+
+export const errorResponseSchema = openApiRegistry.registerComponent(
+	"ErrorResponse",
+	z.object({
+		errorName: z.string(),
+		errorCode: z.enum(Object.values(ErrorCodeEnum) as [string, ...string[]]),
+		httpStatus: z.number().int(),
+		message: z.string(),
+		details: z.unknown().optional(),
+		timestamp: z.string().datetime(),
+		path: z.string(),
+		requestId: z.string().optional(),
+	}),
+);
+
+export const problemDetailsSchema = openApiRegistry.registerComponent(
+	"ProblemDetails",
+	z.object({
+		type: z.string().describe("Stable URI of the error code"),
+		title: z.string(),
+		status: z.number().int(),
+		detail: z.string(),
+		instance: z.string(),
+		errorCode: z.enum(Object.values(ErrorCodeEnum) as [string, ...string[]]),
+		errors: z
+			.array(
+				z.object({ field: z.string(), message: z.string(), code: z.string() }),
+			)
+			.optional()
+			.describe("Validation problems, one per field"),
+		details: z.unknown().optional(),
+		timestamp: z.string().datetime(),
+		requestId: z.string().optional(),
+	}),
+);
+
+export const messageResponseSchema = openApiRegistry.registerComponent(
+	"MessageResponse",
+	z.object({ message: z.string() }),
+);
+
+export const userResponseSchema = openApiRegistry.registerComponent(
+	"User",
+	z.object({
+		_id: z.string(),
+		name: z.string(),
+		email: z.string().email(),
+		avatarUrl: z.string().url().nullable(),
+		timezone: z.string().nullable(),
+		locale: z.string().nullable(),
+		isEmailVerified: z.boolean(),
+		status: z.enum(Object.values(UserStatusEnum) as [string, ...string[]]),
+		roles: z.array(z.enum(Object.values(RoleEnum) as [string, ...string[]])),
+		mfa: z.object({
+			enabled: z.boolean(),
+			enabledAt: z.string().datetime().nullable(),
+		}),
+		deletionScheduledFor: z.string().datetime().nullable(),
+		createdAt: z.string().datetime(),
+		updatedAt: z.string().datetime(),
+	}),
+);
+
+export const sessionResponseSchema = openApiRegistry.registerComponent(
+	"Session",
+	z.object({
+		_id: z.string(),
+		userId: z.string(),
+		userAgent: z.string().optional(),
+		device: z
+			.object({
+				browser: z.string(),
+				os: z.string(),
+				deviceType: z.string(),
+			})
+			.optional(),
+		ipAddress: z.string().optional(),
+		lastSeenAt: z.string().datetime(),
+		expiresAt: z.string().datetime(),
+		createdAt: z.string().datetime(),
+		isCurrent: z.boolean(),
+	}),
+);
+
+export const auditLogResponseSchema = openApiRegistry.registerComponent(
+	"AuditLog",
+	z.object({
+		_id: z.string(),
+		event: z.enum(Object.values(AuditEventEnum) as [string, ...string[]]),
+		outcome: z.enum(Object.values(AuditOutcomeEnum) as [string, ...string[]]),
+		actorId: z.string().optional(),
+		targetId: z.string().optional(),
+		ipAddress: z.string().optional(),
+		userAgent: z.string().optional(),
+		requestId: z.string().optional(),
+		details: z.record(z.unknown()).optional(),
+		createdAt: z.string().datetime(),
+	}),
+);
+
+/**
+ * `{ message, ...extra }`, the shape every success response follows
+ */
+export const withMessage = <T extends z.ZodRawShape>(shape: T) =>
+	messageResponseSchema.extend(shape);
+
+/**
+ * Query parameters a `parseListQuery` spec accepts, one per filter operator
+ */
+export const listQuerySchema = (spec: ListSpec) => {
+	const filters = Object.entries(spec.filters ?? {}).flatMap(([name, field]) =>
+		field.operators.map((operator) => {
+			const values = field.values ? ` One of: ${field.values.join(", ")}.` : "";
+			const list =
+				operator === "in" || operator === "nin" ? " Comma-separated." : "";
+			return [
+				`filter[${name}][${operator}]`,
+				z
+					.string()
+					.optional()
+					.describe(`${field.type} \`${operator}\`.${list}${values}`),
+			] as const;
+		}),
+	);
+
+	return z.object({
+		limit: z
+			.number()
+			.int()
+			.min(1)
+			.max(spec.maxLimit ?? 100)
+			.optional(),
+		cursor: z
+			.string()
+			.optional()
+			.describe("`pageInfo.nextCursor` of the previous page"),
+		page: z
+			.number()
+			.int()
+			.min(1)
+			.optional()
+			.describe("Offset paging; cannot be combined with `cursor`"),
+		sort: z
+			.string()
+			.optional()
+			.describe(
+				`Comma-separated, \`-\` for descending. Fields: ${spec.sortable.join(", ")}. Default: ${spec.defaultSort}`,
+			),
+		...Object.fromEntries(filters),
+	});
+};
+
+/**
+ * `{ message, data, pageInfo }`, the envelope of every list endpoint
+ */
+export const pageSchema = (item: z.ZodTypeAny) =>
+	withMessage({
+		data: z.array(item),
+		pageInfo: z.object({
+			nextCursor: z
+				.string()
+				.nullable()
+				.describe("Pass as `cursor` to fetch the next page; null on the last"),
+			hasMore: z.boolean(),
+			total: z.number().int().optional(),
+		}),
+	});
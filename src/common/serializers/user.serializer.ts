@@ -0,0 +1,44 @@
+import type { RoleType } from "../enums/role.enum";
+import type { UserStatusEnumType } from "../enums/user-status.enum";
+
+export type SerializableUser = {
+	_id: unknown;
+	name: string;
+	email: string;
+	avatarUrl?: string;
+	timezone?: string;
+	locale?: string;
+	isEmailVerified: boolean;
+	status: UserStatusEnumType;
+	roles: RoleType[];
+	mfa?: { enabled?: boolean; enabledAt?: Date };
+	deletion?: { scheduledFor: Date };
+	createdAt: Date;
+	updatedAt: Date;
+};
+
+/**
+ * Public shape of a user in every API response
+ * Fields are whitelisted so password hashes, MFA secrets and backup codes can
+ * never leak, even when they were explicitly selected.
+ */
+export const serializeUser = (user: SerializableUser) => ({
+	_id: String(user._id),
+	name: user.name,
+	email: user.email,
+	avatarUrl: user.avatarUrl ?? null,
+	timezone: user.timezone ?? null,
+	locale: user.locale ?? null,
+	isEmailVerified: user.isEmailVerified,
+	status: user.status,
+	roles: user.roles,
+	mfa: {
+		enabled: Boolean(user.mfa?.enabled),
+		enabledAt: user.mfa?.enabledAt ?? null,
+	},
+	deletionScheduledFor: user.deletion?.scheduledFor ?? null,
+	createdAt: user.createdAt,
+	updatedAt: user.updatedAt,
+});
+
+export type SerializedUser = ReturnType<typeof serializeUser>;
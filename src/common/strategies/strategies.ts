@@ -0,0 +1,81 @@
+import type { Request } from "express";
+import type { PassportStatic } from "passport";
+import {
+	ExtractJwt,
+	Strategy as JwtStrategy,
+	type StrategyOptionsWithRequest,
+} from "passport-jwt";
+import { Env } from "../../configs/env.config";
+import { UserModel } from "../../database/models/model";
+import { sessionService } from "../../modules/session/session.service";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { UserStatusEnum } from "../enums/user-status.enum";
+import { AuthenticationException } from "../utils/app-error";
+import { ACCESS_TOKEN_COOKIE } from "../utils/cookie";
+import type { AccessTPayload } from "../utils/jwt";
+
+const cookieExtractor = (req: Request): string | null =>
+	req.cookies?.[ACCESS_TOKEN_COOKIE] ?? null;
+
+export const jwtOptions: StrategyOptionsWithRequest = {
+	jwtFromRequest: ExtractJwt.fromExtractors([
+		cookieExtractor,
+		ExtractJwt.fromAuthHeaderAsBearerToken(),
+	]),
+	secretOrKey: Env.JWT.SECRET,
+	audience: ["user"],
+	algorithms: ["HS256"],
+	passReqToCallback: true,
+};
+
+/**
+ * JWT Strategy
+ * Accepts the access token from the cookie or an `Authorization: Bearer` header,
+ * then loads the session and user behind it
+ */
+export const setupJwtStrategy = (passport: PassportStatic) => {
+	passport.use(
+		new JwtStrategy(
+			jwtOptions,
+			async (req: Request, payload: AccessTPayload, done) => {
+				try {
+					const session = await sessionService.findActiveSession(
+						payload.sessionId,
+					);
+					if (!session) {
+						return done(
+							new AuthenticationException(
+								"Your session has been revoked. Please log in again",
+								ErrorCodeEnum.AUTH_INVALID_TOKEN,
+							),
+						);
+					}
+
+					const user = await UserModel.findById(payload.userId);
+					if (!user) {
+						return done(
+							new AuthenticationException(
+								"User not found",
+								ErrorCodeEnum.AUTH_USER_NOT_FOUND,
+							),
+						);
+					}
+
+					if (user.status === UserStatusEnum.DISABLED) {
+						return done(
+							new AuthenticationException(
+								"Your account has been disabled",
+								ErrorCodeEnum.AUTH_ACCOUNT_DISABLED,
+							),
+						);
+					}
+
+					req.sessionId = session._id.toString();
+					return done(null, user);
+				} catch (error) {
+					return done(error);
+				}
+			},
+		),
+	);
+};
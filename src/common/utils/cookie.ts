@@ -0,0 +1,48 @@
+import type { CookieOptions, Response } from "express";
+import { apiPath } from "../../configs/api.config";
+import { Env } from "../../configs/env.config";
+import { fromNow } from "./date-time";
+
+type CookiePayloadType = {
+	res: Response;
+	accessToken: string;
+	refreshToken: string;
+};
+
+export const ACCESS_TOKEN_COOKIE = "accessToken";
+export const REFRESH_TOKEN_COOKIE = "refreshToken";
+
+// Refresh tokens are only sent to the auth routes that need them
+export const REFRESH_PATH = apiPath("auth");
+
+const defaults: CookieOptions = {
+	httpOnly: true,
+	secure: Env.NODE_ENV === "production",
+	sameSite: Env.NODE_ENV === "production" ? "strict" : "lax",
+};
+
+export const getAccessTokenCookieOptions = (): CookieOptions => ({
+	...defaults,
+	expires: fromNow(Env.JWT.EXPIRES_IN),
+	path: "/",
+});
+
+export const getRefreshTokenCookieOptions = (): CookieOptions => ({
+	...defaults,
+	expires: fromNow(Env.JWT.REFRESH_EXPIRES_IN),
+	path: REFRESH_PATH,
+});
+
+export const setAuthenticationCookies = ({
+	res,
+	accessToken,
+	refreshToken,
+}: CookiePayloadType): Response =>
+	res
+		.cookie(ACCESS_TOKEN_COOKIE, accessToken, getAccessTokenCookieOptions())
+		.cookie(REFRESH_TOKEN_COOKIE, refreshToken, getRefreshTokenCookieOptions());
+
+export const clearAuthenticationCookies = (res: Response): Response =>
+	res
+		.clearCookie(ACCESS_TOKEN_COOKIE, { path: "/" })
+		.clearCookie(REFRESH_TOKEN_COOKIE, { path: REFRESH_PATH });
@@ -0,0 +1,19 @@
+import { createHash, createHmac, randomBytes } from "node:crypto";
+import { Env } from "../../configs/env.config";
+
+/**
+ * Deterministic SHA-256 digest for high-entropy tokens
+ * Use bcrypt (see bcrypt.ts) for user-chosen secrets such as passwords
+ */
+export const hashToken = (token: string) =>
+	createHash("sha256").update(token).digest("hex");
+
+/**
+ * HMAC-SHA256 of a token keyed with the server secret
+ * A leaked database alone is not enough to forge a matching code
+ */
+export const signToken = (token: string) =>
+	createHmac("sha256", Env.JWT.SECRET).update(token).digest("hex");
+
+export const generateRandomToken = (bytes = 32) =>
+	randomBytes(bytes).toString("hex");
@@ -0,0 +1,31 @@
+const DURATION_UNITS: Record<string, number> = {
+	ms: 1,
+	s: 1000,
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Convert a duration string such as "15m", "30d" or "3600" (seconds)
+ * into milliseconds
+ */
+export const parseDuration = (value: string): number => {
+	const match = /^(\d+)\s*(ms|s|m|h|d)?$/.exec(value.trim());
+
+	if (!match) {
+		throw new Error(`Invalid duration: ${value}`);
+	}
+
+	const [, amount, unit = "s"] = match;
+	return Number(amount) * DURATION_UNITS[unit];
+};
+
+/**
+ * Date `duration` from now; numbers are milliseconds
+ */
+export const fromNow = (duration: string | number): Date =>
+	new Date(
+		Date.now() +
+			(typeof duration === "number" ? duration : parseDuration(duration)),
+	);
@@ -0,0 +1,299 @@
+import { apiPath } from "../../configs/api.config";
+import { Env } from "../../configs/env.config";
+import { HTTPSTATUS, type HttpStatusCodeType } from "../../configs/http.config";
+import {
+	ErrorCodeEnum,
+	type ErrorCodeEnumType,
+} from "../enums/error-code.enum";
+
+type ErrorCodeInfo = {
+	// Status the code is usually returned with
+	status: HttpStatusCodeType;
+	// Short summary that never changes between occurrences (problem `title`)
+	title: string;
+	description: string;
+};
+
+const {
+	BAD_REQUEST,
+	UNAUTHORIZED,
+	FORBIDDEN,
+	NOT_FOUND,
+	METHOD_NOT_ALLOWED,
+	CONFLICT,
+	UNPROCESSABLE_ENTITY,
+	TOO_MANY_REQUESTS,
+	INTERNAL_SERVER_ERROR,
+	NOT_IMPLEMENTED,
+	BAD_GATEWAY,
+	SERVICE_UNAVAILABLE,
+	GATEWAY_TIMEOUT,
+} = HTTPSTATUS;
+
+/**
+ * What every error code means, served by `GET /errors`
+ */
+export const ERROR_CATALOG: Record<ErrorCodeEnumType, ErrorCodeInfo> = {
+	// Client Errors (4xx)
+	USR_400: {
+		status: BAD_REQUEST,
+		title: "Bad request",
+		description: "The request is invalid or malformed.",
+	},
+	USR_404: {
+		status: NOT_FOUND,
+		title: "Not found",
+		description: "The endpoint or the resource it refers to does not exist.",
+	},
+	USR_405: {
+		status: METHOD_NOT_ALLOWED,
+		title: "Method not allowed",
+		description: "The endpoint does not support this HTTP method.",
+	},
+	USR_409: {
+		status: CONFLICT,
+		title: "Conflict",
+		description:
+			"The request conflicts with the current state of the resource, e.g. an action that was already taken.",
+	},
+	USR_422: {
+		status: UNPROCESSABLE_ENTITY,
+		title: "Unprocessable entity",
+		description: "The request is well-formed but cannot be carried out.",
+	},
+
+	// Authentication & Authorization Errors
+	AUTH_401: {
+		status: UNAUTHORIZED,
+		title: "Authentication required",
+		description: "The request needs a valid access token.",
+	},
+	AUTH_403: {
+		status: FORBIDDEN,
+		title: "Forbidden",
+		description: "The caller is not allowed to access this resource.",
+	},
+	AUTH_USER_NOT_FOUND: {
+		status: NOT_FOUND,
+		title: "User not found",
+		description: "No account matches the given user.",
+	},
+	AUTH_EMAIL_ALREADY_EXISTS: {
+		status: CONFLICT,
+		title: "Email already in use",
+		description: "Another account is registered with this email address.",
+	},
+	AUTH_INVALID_TOKEN: {
+		status: UNAUTHORIZED,
+		title: "Invalid token",
+		description:
+			"The token or code is malformed, expired, revoked or was already used.",
+	},
+	AUTH_TOKEN_NOT_FOUND: {
+		status: UNAUTHORIZED,
+		title: "Token missing",
+		description:
+			"No access token was sent in the Authorization header or cookie.",
+	},
+	AUTH_TOKEN_EXPIRED: {
+		status: UNAUTHORIZED,
+		title: "Token expired",
+		description: "The access token has expired; refresh it and retry.",
+	},
+	AUTH_INVALID_CREDENTIALS: {
+		status: UNAUTHORIZED,
+		title: "Invalid credentials",
+		description: "The email, password or two-factor code is wrong.",
+	},
+	AUTH_ACCOUNT_LOCKED: {
+		status: UNAUTHORIZED,
+		title: "Account locked",
+		description:
+			"Too many failed attempts. `unlockAt` says when signing in is allowed again.",
+	},
+	AUTH_ACCOUNT_DISABLED: {
+		status: FORBIDDEN,
+		title: "Account disabled",
+		description: "An administrator has disabled the account.",
+	},
+	AUTH_INSUFFICIENT_PERMISSIONS: {
+		status: FORBIDDEN,
+		title: "Insufficient permissions",
+		description:
+			"The caller's roles do not grant the permission the endpoint requires.",
+	},
+
+	// Validation Errors
+	VAL_400: {
+		status: BAD_REQUEST,
+		title: "Validation failed",
+		description:
+			"One or more fields are invalid; each problem is listed with its field.",
+	},
+	VAL_REQUIRED_FIELD: {
+		status: BAD_REQUEST,
+		title: "Required field missing",
+		description: "A required field was not sent.",
+	},
+	VAL_INVALID_FORMAT: {
+		status: BAD_REQUEST,
+		title: "Invalid format",
+		description:
+			"A value does not have the expected format, e.g. an id, date or cursor.",
+	},
+	VAL_INVALID_TYPE: {
+		status: BAD_REQUEST,
+		title: "Invalid type",
+		description: "A value has the wrong type.",
+	},
+	VAL_OUT_OF_RANGE: {
+		status: BAD_REQUEST,
+		title: "Value out of range",
+		description:
+			"A value is outside the allowed range or not one of the allowed values.",
+	},
+	VAL_DUPLICATE_VALUE: {
+		status: BAD_REQUEST,
+		title: "Duplicate value",
+		description: "A value that must be unique was repeated.",
+	},
+
+	// Rate Limiting
+	RATE_429: {
+		status: TOO_MANY_REQUESTS,
+		title: "Too many requests",
+		description: "Too many requests were sent; slow down and retry later.",
+	},
+	RATE_LIMIT_EXCEEDED: {
+		status: TOO_MANY_REQUESTS,
+		title: "Rate limit exceeded",
+		description:
+			"A rate limit policy was exceeded. Retry after the `Retry-After` header.",
+	},
+
+	// Database Errors
+	DB_500: {
+		status: INTERNAL_SERVER_ERROR,
+		title: "Database error",
+		description: "The database failed to complete the operation.",
+	},
+	DB_CONNECTION_ERROR: {
+		status: SERVICE_UNAVAILABLE,
+		title: "Database unavailable",
+		description: "The database cannot be reached.",
+	},
+	DB_QUERY_ERROR: {
+		status: INTERNAL_SERVER_ERROR,
+		title: "Query failed",
+		description: "A database query failed.",
+	},
+	DB_TRANSACTION_ERROR: {
+		status: INTERNAL_SERVER_ERROR,
+		title: "Transaction failed",
+		description: "A database transaction failed and was rolled back.",
+	},
+	DB_DUPLICATE_KEY: {
+		status: CONFLICT,
+		title: "Duplicate key",
+		description:
+			"A resource with the same unique value already exists; `duplicateFields` names the fields.",
+	},
+	DB_VALIDATION_ERROR: {
+		status: BAD_REQUEST,
+		title: "Database validation failed",
+		description: "The data was rejected by the database schema.",
+	},
+	DB_NOT_FOUND: {
+		status: NOT_FOUND,
+		title: "Record not found",
+		description: "The database record does not exist.",
+	},
+
+	// External/Third-party API Errors
+	EXT_502: {
+		status: BAD_GATEWAY,
+		title: "Bad gateway",
+		description: "An upstream service returned an invalid response.",
+	},
+	EXT_503: {
+		status: SERVICE_UNAVAILABLE,
+		title: "Service unavailable",
+		description: "The service is temporarily unavailable, e.g. shutting down.",
+	},
+	EXT_504: {
+		status: GATEWAY_TIMEOUT,
+		title: "Gateway timeout",
+		description: "An upstream service did not respond in time.",
+	},
+	EXT_API_ERROR: {
+		status: BAD_GATEWAY,
+		title: "External service error",
+		description:
+			"A third-party service such as the email provider failed the request.",
+	},
+	EXT_SERVICE_UNAVAILABLE: {
+		status: SERVICE_UNAVAILABLE,
+		title: "External service unavailable",
+		description: "A third-party service cannot be reached.",
+	},
+	EXT_TIMEOUT: {
+		status: GATEWAY_TIMEOUT,
+		title: "External service timeout",
+		description: "A third-party service did not respond in time.",
+	},
+
+	// Server Errors (5xx)
+	SRV_500: {
+		status: INTERNAL_SERVER_ERROR,
+		title: "Internal server error",
+		description: "An unexpected error occurred; it has been logged.",
+	},
+	SRV_501: {
+		status: NOT_IMPLEMENTED,
+		title: "Not implemented",
+		description: "The feature is not implemented yet.",
+	},
+	SRV_INTERNAL_ERROR: {
+		status: INTERNAL_SERVER_ERROR,
+		title: "Internal server error",
+		description: "The server failed to complete the request.",
+	},
+	SRV_UNHANDLED_ERROR: {
+		status: INTERNAL_SERVER_ERROR,
+		title: "Unhandled error",
+		description: "An error escaped every handler; it has been logged.",
+	},
+
+	// File Upload Errors
+	FILE_UPLOAD_ERROR: {
+		status: BAD_REQUEST,
+		title: "File upload error",
+		description: "The upload was rejected, e.g. too many or unexpected files.",
+	},
+	FILE_TOO_LARGE: {
+		status: BAD_REQUEST,
+		title: "File too large",
+		description: "The file exceeds the maximum allowed size.",
+	},
+	FILE_INVALID_TYPE: {
+		status: BAD_REQUEST,
+		title: "Invalid file type",
+		description: "The file type is not allowed.",
+	},
+	FILE_UPLOAD_FAILED: {
+		status: INTERNAL_SERVER_ERROR,
+		title: "File upload failed",
+		description: "The file could not be stored.",
+	},
+};
+
+export const isErrorCode = (value: string): value is ErrorCodeEnumType =>
+	Object.hasOwn(ErrorCodeEnum, value);
+
+/**
+ * Stable problem `type` URI of a code
+ * Defaults to the code's entry in `GET /errors`; set ERROR_TYPE_BASE_URI to
+ * point at published docs instead.
+ */
+export const errorTypeUri = (code: ErrorCodeEnumType) =>
+	`${Env.ERRORS.TYPE_BASE_URI ?? apiPath("errors")}/${code}`;
@@ -0,0 +1,140 @@
+import type { Request, Response } from "express";
+import { Env } from "../../configs/env.config";
+import type { HttpStatusCodeType } from "../../configs/http.config";
+import type { ErrorCodeEnumType } from "../enums/error-code.enum";
+import { localizeErrorMessage } from "../i18n/error-messages";
+import { ERROR_CATALOG, errorTypeUri } from "./error-catalog";
+
+export const PROBLEM_JSON = "application/problem+json";
+
+export type ErrorResponseInput = {
+	errorName: string;
+	statusCode: HttpStatusCodeType;
+	errorCode: ErrorCodeEnumType;
+	// English message; translated for the request's locale
+	message: string;
+	details?: unknown;
+	// Placeholder values for the translated message, never sent; defaults to `details`
+	messageParams?: Record<string, unknown>;
+	stack?: string;
+};
+
+/**
+ * Standardized error response format
+ */
+interface ErrorResponse {
+	errorName: string;
+	errorCode: string;
+	httpStatus: number;
+	message: string;
+	details?: unknown;
+	timestamp?: string;
+	path?: string;
+	requestId?: string;
+}
+
+/**
+ * RFC 9457 problem details; members after `instance` are extensions
+ */
+interface ProblemDetails {
+	type: string;
+	title: string;
+	status: number;
+	detail: string;
+	instance: string;
+	errorCode: string;
+	// Per-field validation problems
+	errors?: unknown[];
+	details?: unknown;
+	timestamp: string;
+	requestId?: string;
+	stack?: string;
+}
+
+/**
+ * `problem+json` when the client prefers it over `json`, else ERROR_FORMAT
+ * Clients without a preference (no Accept header, or any type) get the default.
+ */
+const wantsProblemJson = (req: Request) => {
+	const types =
+		Env.ERRORS.FORMAT === "problem+json"
+			? [PROBLEM_JSON, "application/json"]
+			: ["application/json", PROBLEM_JSON];
+
+	return req.accepts(types) === PROBLEM_JSON;
+};
+
+const toProblem = (
+	req: Request,
+	input: ErrorResponseInput,
+	detail: string,
+	timestamp: string,
+): ProblemDetails => ({
+	type: errorTypeUri(input.errorCode),
+	title: ERROR_CATALOG[input.errorCode].title,
+	status: input.statusCode,
+	detail,
+	instance: req.originalUrl,
+	errorCode: input.errorCode,
+	...(Array.isArray(input.details)
+		? { errors: input.details }
+		: input.details !== undefined && { details: input.details }),
+	timestamp,
+	requestId: req.requestId,
+	...(input.stack && { stack: input.stack }),
+});
+
+const toErrorResponse = (
+	req: Request,
+	input: ErrorResponseInput,
+	message: string,
+	timestamp: string,
+): ErrorResponse => {
+	const response: ErrorResponse = {
+		errorName: input.errorName,
+		errorCode: input.errorCode,
+		httpStatus: input.statusCode,
+		message,
+		timestamp,
+		path: req.originalUrl,
+		requestId: req.requestId,
+	};
+
+	if (input.details !== undefined) {
+		response.details = input.details;
+	}
+	if (input.stack) {
+		response.details = {
+			...(response.details as Record<string, unknown>),
+			stack: input.stack,
+		};
+	}
+	return response;
+};
+
+/**
+ * Send an error as our JSON envelope or as problem details, by content negotiation
+ */
+export const sendErrorResponse = (
+	req: Request,
+	res: Response,
+	input: ErrorResponseInput,
+): void => {
+	const message = localizeErrorMessage(
+		req,
+		res,
+		input.errorCode,
+		input.message,
+		input.messageParams ?? input.details,
+	);
+	const timestamp = new Date().toISOString();
+
+	res.vary("Accept");
+	res.status(input.statusCode);
+
+	if (wantsProblemJson(req)) {
+		res.type(PROBLEM_JSON).json(toProblem(req, input, message, timestamp));
+		return;
+	}
+	res.json(toErrorResponse(req, input, message, timestamp));
+};
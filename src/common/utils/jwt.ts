@@ -0,0 +1,71 @@
+import jwt, { type SignOptions, type VerifyOptions } from "jsonwebtoken";
+import { Env } from "../../configs/env.config";
+import type { SessionDocument } from "../../database/models/session.model";
+import type { UserDocument } from "../../database/models/user.model";
+
+export type AccessTPayload = {
+	userId: UserDocument["_id"];
+	sessionId: SessionDocument["_id"];
+};
+
+export type RefreshTPayload = {
+	sessionId: SessionDocument["_id"];
+	family: string;
+	jti: string;
+};
+
+export type MfaChallengeTPayload = {
+	userId: UserDocument["_id"];
+	jti: string;
+};
+
+type SignOptsAndSecret = SignOptions & {
+	secret: string;
+};
+
+const defaults: SignOptions = {
+	audience: ["user"],
+};
+
+export const accessTokenSignOptions: SignOptsAndSecret = {
+	expiresIn: Math.floor(Env.JWT.EXPIRES_IN / 1000),
+	secret: Env.JWT.SECRET,
+};
+
+export const refreshTokenSignOptions: SignOptsAndSecret = {
+	expiresIn: Math.floor(Env.JWT.REFRESH_EXPIRES_IN / 1000),
+	secret: Env.JWT.REFRESH_SECRET,
+};
+
+// Short-lived proof that the password step succeeded for an MFA-enabled user
+export const MFA_CHALLENGE_TTL = "5m";
+
+export const mfaChallengeSignOptions: SignOptsAndSecret = {
+	expiresIn: MFA_CHALLENGE_TTL,
+	audience: ["mfa"],
+	secret: Env.JWT.SECRET,
+};
+
+export const signJwtToken = (
+	payload: AccessTPayload | RefreshTPayload | MfaChallengeTPayload,
+	options?: SignOptsAndSecret,
+) => {
+	const { secret, ...opts } = options || accessTokenSignOptions;
+	return jwt.sign(payload, secret, { ...defaults, ...opts });
+};
+
+export const verifyJwtToken = <TPayload extends object = AccessTPayload>(
+	token: string,
+	options?: VerifyOptions & { secret: string },
+) => {
+	try {
+		const { secret = Env.JWT.SECRET, ...opts } = options || {};
+		const payload = jwt.verify(token, secret, {
+			...(defaults as VerifyOptions),
+			...opts,
+		}) as TPayload;
+		return { payload };
+	} catch (err) {
+		return { error: err instanceof Error ? err.message : String(err) };
+	}
+};
@@ -0,0 +1,136 @@
+import path from "node:path";
+import winston, { format } from "winston";
+import DailyRotateFile from "winston-daily-rotate-file";
+import { Env } from "../../configs/env.config";
+import { getRequestId } from "./request-context";
+
+const REDACTED = "[REDACTED]";
+const MAX_DEPTH = 8;
+
+// Matches keys such as password, accessToken, JWT_SECRET, set-cookie, x-api-key
+const SENSITIVE_KEY =
+	/pass(word)?|secret|token|authorization|cookie|api[-_]?key|backup[-_]?codes?|otp/i;
+
+const isPlainObject = (value: object) => {
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+};
+
+const redactValue = (
+	value: unknown,
+	depth: number,
+	seen: WeakSet<object>,
+): unknown => {
+	if (value === null || typeof value !== "object") return value;
+	// Dates, ObjectIds, Buffers and the like serialize themselves; rebuilding
+	// them from their own keys would turn them into `{}`
+	if (
+		!Array.isArray(value) &&
+		!(value instanceof Error) &&
+		!isPlainObject(value)
+	) {
+		return value;
+	}
+	if (depth >= MAX_DEPTH || seen.has(value)) return "[Truncated]";
+	seen.add(value);
+
+	if (Array.isArray(value)) {
+		return value.map((item) => redactValue(item, depth + 1, seen));
+	}
+
+	// Keep errors readable; their own enumerable props are redacted below
+	const source: Record<string, unknown> =
+		value instanceof Error
+			? { name: value.name, message: value.message, stack: value.stack }
+			: {};
+	for (const [key, item] of Object.entries(value)) {
+		source[key] = item;
+	}
+
+	const result: Record<string, unknown> = {};
+	for (const [key, item] of Object.entries(source)) {
+		result[key] = SENSITIVE_KEY.test(key)
+			? REDACTED
+			: redactValue(item, depth + 1, seen);
+	}
+	return result;
+};
+
+/**
+ * Replace the values of secret-looking keys anywhere in a log payload
+ */
+export const redact = <T>(value: T): T =>
+	redactValue(value, 0, new WeakSet()) as T;
+
+const redactFormat = format((info) => {
+	const seen = new WeakSet<object>();
+	for (const key of Object.keys(info)) {
+		if (key === "level" || key === "message") continue;
+		info[key] = SENSITIVE_KEY.test(key)
+			? REDACTED
+			: redactValue(info[key], 1, seen);
+	}
+	return info;
+});
+
+const requestIdFormat = format((info) => {
+	const requestId = getRequestId();
+	if (requestId && !info.requestId) {
+		info.requestId = requestId;
+	}
+	return info;
+});
+
+const baseFormat = format.combine(
+	format.errors({ stack: true }),
+	requestIdFormat(),
+	redactFormat(),
+	format.timestamp(),
+);
+
+const jsonFormat = format.combine(baseFormat, format.json());
+
+const prettyFormat = format.combine(
+	baseFormat,
+	format.colorize(),
+	format.printf(({ timestamp, level, message, requestId, stack, ...meta }) => {
+		const id = requestId ? ` [${requestId}]` : "";
+		const extra = Object.keys(meta).length ? ` ${JSON.stringify(meta)}` : "";
+		return `${timestamp} ${level}${id}: ${message}${extra}${stack ? `\n${stack}` : ""}`;
+	}),
+);
+
+const isProduction = Env.NODE_ENV === "production";
+
+const rotatingFile = (filename: string, level?: string) =>
+	new DailyRotateFile({
+		dirname: path.resolve(Env.LOG.DIR),
+		filename: `${filename}-%DATE%.log`,
+		datePattern: "YYYY-MM-DD",
+		zippedArchive: true,
+		maxSize: "20m",
+		maxFiles: Env.LOG.MAX_FILES,
+		level,
+		format: jsonFormat,
+	});
+
+/**
+ * Application logger
+ * JSON in production and pretty-printed in development on the console; always
+ * JSON in the daily-rotated files. Every line carries the current request ID.
+ *
+ * @example
+ * logger.info("User registered", { userId });
+ * logger.error("Failed to send email", { error });
+ */
+export const logger = winston.createLogger({
+	level: Env.LOG.LEVEL,
+	transports: [
+		new winston.transports.Console({
+			format: isProduction ? jsonFormat : prettyFormat,
+		}),
+		rotatingFile("app"),
+		rotatingFile("error", "error"),
+	],
+	exitOnError: false,
+});
@@ -0,0 +1,137 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { Express } from "express";
+import { apiPath, DEFAULT_API_VERSION } from "../../configs/api.config";
+import { deprecation } from "../../middlewares/deprecation.middleware";
+import type { AppModule } from "../interface/interface";
+import { logger } from "./logger";
+
+const MODULES_DIR = path.resolve(__dirname, "../../modules");
+const MODULE_FILE = /\.module\.(ts|js)$/;
+const APP_MODULE = Symbol.for("app.module");
+
+type BrandedModule = AppModule & { [APP_MODULE]: true };
+
+/**
+ * Declare a feature module; the loader only picks up exports built with this
+ *
+ * @example
+ * export const userModule = defineModule({ name: "users", router: userRoutes });
+ */
+export const defineModule = (module: AppModule): AppModule =>
+	({ ...module, [APP_MODULE]: true }) as BrandedModule;
+
+const isAppModule = (value: unknown): value is AppModule =>
+	typeof value === "object" && value !== null && APP_MODULE in value;
+
+export const getMountPath = (module: AppModule) =>
+	module.path ?? apiPath(module.name, module.version ?? DEFAULT_API_VERSION);
+
+/**
+ * Require every `src/modules/<dir>/*.module.(ts|js)` and collect the modules
+ * they export, ordered by directory name. A directory may export several
+ * versions of the same module.
+ */
+export const discoverModules = (dir = MODULES_DIR): AppModule[] => {
+	const modules: AppModule[] = [];
+
+	const directories = fs
+		.readdirSync(dir, { withFileTypes: true })
+		.filter((entry) => entry.isDirectory())
+		.map((entry) => entry.name)
+		.sort();
+
+	for (const directory of directories) {
+		const files = fs
+			.readdirSync(path.join(dir, directory))
+			.filter((file) => MODULE_FILE.test(file) && !file.endsWith(".d.ts"));
+
+		for (const file of files) {
+			// Discovery is synchronous at startup; CommonJS require is intended
+			const exports: Record<string, unknown> = require(
+				path.join(dir, directory, file),
+			);
+			modules.push(...Object.values(exports).filter(isAppModule));
+		}
+	}
+
+	const seen = new Set<string>();
+	for (const module of modules) {
+		const mountPath = getMountPath(module);
+		if (seen.has(mountPath)) {
+			throw new Error(`Two modules are mounted at ${mountPath}`);
+		}
+		seen.add(mountPath);
+	}
+
+	return modules.filter((module) => module.enabled !== false);
+};
+
+// Newest version of the same module, for the successor-version link
+const findSuccessor = (module: AppModule, modules: AppModule[]) =>
+	modules
+		.filter(
+			(other) =>
+				other.name === module.name &&
+				!other.path &&
+				(other.version ?? DEFAULT_API_VERSION) >
+					(module.version ?? DEFAULT_API_VERSION),
+		)
+		.sort((a, b) => (b.version ?? 0) - (a.version ?? 0))[0];
+
+/**
+ * Mount each module's router and pass it to every `onModuleMount` hook
+ */
+export const mountModules = (app: Express, modules: AppModule[]) => {
+	// Collected up front so hooks see modules discovered before their own
+	const mountHooks = modules.flatMap((module) => module.onModuleMount ?? []);
+
+	for (const module of modules) {
+		const mountPath = getMountPath(module);
+
+		if (module.deprecation) {
+			const successor = findSuccessor(module, modules);
+			app.use(
+				mountPath,
+				deprecation({
+					...module.deprecation,
+					successor: successor && getMountPath(successor),
+				}),
+			);
+		}
+		app.use(mountPath, module.router);
+
+		for (const hook of mountHooks) {
+			hook(module);
+		}
+
+		logger.debug(`Mounted module ${module.name} at ${mountPath}`);
+	}
+};
+
+/**
+ * Run init hooks one at a time so later modules can rely on earlier ones
+ */
+export const initModules = async (modules: AppModule[]) => {
+	for (const module of modules) {
+		if (module.init) {
+			await module.init();
+			logger.debug(`Initialized module ${module.name}`);
+		}
+	}
+};
+
+/**
+ * Run shutdown hooks in reverse order; one failing hook does not stop the rest
+ */
+export const shutdownModules = async (modules: AppModule[]) => {
+	for (const module of [...modules].reverse()) {
+		if (!module.shutdown) continue;
+
+		try {
+			await module.shutdown();
+		} catch (error) {
+			logger.error(`Module ${module.name} failed to shut down`, { error });
+		}
+	}
+};
@@ -0,0 +1,538 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { type FilterQuery, type Model, Types } from "mongoose";
+import type { ParsedQs } from "qs";
+import { Env } from "../../configs/env.config";
+import {
+	ErrorCodeEnum,
+	type ErrorCodeEnumType,
+} from "../enums/error-code.enum";
+import type { ValidationErrorDetail } from "../validators/validator";
+import { ValidationException } from "./app-error";
+
+// ==================== Spec ====================
+
+export type FilterOperator =
+	| "eq"
+	| "ne"
+	| "in"
+	| "nin"
+	| "gt"
+	| "gte"
+	| "lt"
+	| "lte"
+	| "prefix"
+	| "exists";
+
+export type FilterField = {
+	type: "string" | "number" | "boolean" | "date" | "objectId";
+	operators: readonly FilterOperator[];
+	// Allowed values for enum-like strings
+	values?: readonly string[];
+	// Document path(s) to match; several paths match if any of them does
+	path?: string | readonly string[];
+};
+
+/**
+ * What one list endpoint accepts; anything outside it is rejected
+ * Sort fields should be required fields that never change: missing or
+ * changing values make keyset pages skip or repeat items.
+ */
+export type ListSpec = {
+	filters?: Record<string, FilterField>;
+	sortable: readonly string[];
+	// e.g. "-createdAt"
+	defaultSort: string;
+	defaultLimit?: number;
+	maxLimit?: number;
+	// Run a count for `pageInfo.total`
+	countTotal?: boolean;
+};
+
+export type SortField = { field: string; direction: 1 | -1 };
+
+export type ListQuery = {
+	filter: FilterQuery<unknown>;
+	sort: SortField[];
+	limit: number;
+	page?: number;
+	cursor?: Cursor;
+	countTotal: boolean;
+};
+
+export type PageInfo = {
+	nextCursor: string | null;
+	hasMore: boolean;
+	total?: number;
+};
+
+export type Page<T> = { data: T[]; pageInfo: PageInfo };
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const MAX_PAGE = 10_000;
+const MAX_VALUE_LENGTH = 255;
+
+const MONGO_OPERATORS: Partial<Record<FilterOperator, string>> = {
+	ne: "$ne",
+	in: "$in",
+	nin: "$nin",
+	gt: "$gt",
+	gte: "$gte",
+	lt: "$lt",
+	lte: "$lte",
+	exists: "$exists",
+};
+
+export const escapeRegExp = (value: string) =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+class ListQueryError extends Error {
+	constructor(
+		public field: string,
+		message: string,
+		public code: ErrorCodeEnumType = ErrorCodeEnum.VAL_INVALID_FORMAT,
+	) {
+		super(message);
+	}
+}
+
+// ==================== Cursors ====================
+
+type CursorValue = string | number | boolean | null | { $date: number };
+
+type Cursor = {
+	// Sort the cursor was issued for
+	sort: string;
+	values: CursorValue[];
+	id: string;
+};
+
+const sortKey = (sort: SortField[]) =>
+	sort
+		.map(({ field, direction }) => (direction < 0 ? `-${field}` : field))
+		.join(",");
+
+const signCursor = (payload: string) =>
+	createHmac("sha256", Env.JWT.SECRET)
+		.update(`cursor:${payload}`)
+		.digest("base64url");
+
+const toCursorValue = (value: unknown): CursorValue => {
+	if (value instanceof Date) return { $date: value.getTime() };
+	if (value instanceof Types.ObjectId) return value.toString();
+	if (
+		typeof value === "string" ||
+		typeof value === "number" ||
+		typeof value === "boolean"
+	) {
+		return value;
+	}
+	return null;
+};
+
+const fromCursorValue = (value: CursorValue) =>
+	value !== null && typeof value === "object" ? new Date(value.$date) : value;
+
+/**
+ * Opaque `<payload>.<signature>`; the HMAC makes edited cursors fail to verify
+ */
+const encodeCursor = (cursor: Cursor) => {
+	const payload = Buffer.from(JSON.stringify(cursor)).toString("base64url");
+	return `${payload}.${signCursor(payload)}`;
+};
+
+const decodeCursor = (token: string, sort: SortField[]): Cursor => {
+	const [payload, signature = ""] = token.split(".");
+	const expected = Buffer.from(signCursor(payload ?? ""));
+	const actual = Buffer.from(signature);
+
+	if (
+		!payload ||
+		actual.length !== expected.length ||
+		!timingSafeEqual(actual, expected)
+	) {
+		throw new ListQueryError("cursor", "Invalid cursor");
+	}
+
+	const cursor = JSON.parse(
+		Buffer.from(payload, "base64url").toString(),
+	) as Cursor;
+	if (cursor.sort !== sortKey(sort)) {
+		throw new ListQueryError(
+			"cursor",
+			"Cursor was issued for a different sort order",
+		);
+	}
+	return cursor;
+};
+
+// ==================== Parsing ====================
+
+const readString = (query: ParsedQs, key: string) => {
+	const value = query[key];
+	if (value === undefined) return undefined;
+	if (typeof value !== "string") {
+		throw new ListQueryError(key, "Must be a single value");
+	}
+	return value;
+};
+
+const readInteger = (
+	query: ParsedQs,
+	key: string,
+	min: number,
+	max: number,
+) => {
+	const value = readString(query, key);
+	if (value === undefined) return undefined;
+
+	if (!/^\d+$/.test(value)) {
+		throw new ListQueryError(key, "Must be a whole number");
+	}
+	const number = Number(value);
+	if (number < min || number > max) {
+		throw new ListQueryError(
+			key,
+			`Must be between ${min} and ${max}`,
+			ErrorCodeEnum.VAL_OUT_OF_RANGE,
+		);
+	}
+	return number;
+};
+
+const parseSort = (value: string, spec: ListSpec): SortField[] => {
+	const fields = value.split(",").map((token) => token.trim());
+	const seen = new Set<string>();
+
+	return fields.map((token) => {
+		const field = token.replace(/^-/, "");
+		if (!spec.sortable.includes(field)) {
+			throw new ListQueryError(
+				"sort",
+				`Cannot sort by "${field}". Allowed: ${spec.sortable.join(", ")}`,
+			);
+		}
+		if (seen.has(field)) {
+			throw new ListQueryError("sort", `"${field}" is listed more than once`);
+		}
+		seen.add(field);
+		return { field, direction: token.startsWith("-") ? -1 : 1 };
+	});
+};
+
+const coerceValue = (raw: string, field: FilterField, name: string) => {
+	if (raw.length > MAX_VALUE_LENGTH) {
+		throw new ListQueryError(
+			name,
+			`Must be at most ${MAX_VALUE_LENGTH} characters`,
+			ErrorCodeEnum.VAL_OUT_OF_RANGE,
+		);
+	}
+
+	switch (field.type) {
+		case "number": {
+			const number = Number(raw);
+			if (raw.trim() === "" || !Number.isFinite(number)) {
+				throw new ListQueryError(name, "Must be a number");
+			}
+			return number;
+		}
+		case "boolean":
+			if (raw !== "true" && raw !== "false") {
+				throw new ListQueryError(name, "Must be true or false");
+			}
+			return raw === "true";
+		case "date": {
+			const date = new Date(raw);
+			if (Number.isNaN(date.getTime())) {
+				throw new ListQueryError(name, "Must be an ISO 8601 date");
+			}
+			return date;
+		}
+		case "objectId":
+			if (!/^[a-f\d]{24}$/i.test(raw)) {
+				throw new ListQueryError(name, "Must be a valid id");
+			}
+			return new Types.ObjectId(raw);
+		default:
+			if (field.values && !field.values.includes(raw)) {
+				throw new ListQueryError(
+					name,
+					`Must be one of: ${field.values.join(", ")}`,
+					ErrorCodeEnum.VAL_OUT_OF_RANGE,
+				);
+			}
+			return raw;
+	}
+};
+
+const toCondition = (
+	operator: FilterOperator,
+	raw: string | string[],
+	field: FilterField,
+	name: string,
+): unknown => {
+	if (operator === "in" || operator === "nin") {
+		const values = (Array.isArray(raw) ? raw : raw.split(","))
+			.map((value) => value.trim())
+			.filter(Boolean);
+		return {
+			[MONGO_OPERATORS[operator] as string]: values.map((value) =>
+				coerceValue(value, field, name),
+			),
+		};
+	}
+	if (Array.isArray(raw)) {
+		throw new ListQueryError(name, "Must be a single value");
+	}
+	if (operator === "exists") {
+		return { $exists: coerceValue(raw, { ...field, type: "boolean" }, name) };
+	}
+	if (operator === "prefix") {
+		if (field.type !== "string") {
+			throw new ListQueryError(name, "prefix only applies to text fields");
+		}
+		return new RegExp(`^${escapeRegExp(raw)}`, "i");
+	}
+
+	const value = coerceValue(raw, field, name);
+	return operator === "eq"
+		? value
+		: { [MONGO_OPERATORS[operator] as string]: value };
+};
+
+const unknownFilter = (name: string, spec: ListSpec) => () => {
+	const allowed = Object.keys(spec.filters ?? {}).join(", ") || "none";
+	throw new ListQueryError(
+		`filter.${name}`,
+		`Cannot filter by "${name}". Allowed: ${allowed}`,
+	);
+};
+
+/**
+ * `filter[field]=value` means `eq`; `filter[field][op]=value` picks an operator
+ * Field names and operators come from the spec, and values are coerced to
+ * primitives, so nothing from the query string can reach Mongo as an operator.
+ * Each clause is parsed through `attempt` so every bad filter gets reported.
+ */
+const parseFilters = (
+	raw: unknown,
+	spec: ListSpec,
+	attempt: <T>(parse: () => T) => T | undefined,
+) => {
+	if (raw === undefined) return [];
+	if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+		throw new ListQueryError("filter", "Use filter[field][operator]=value");
+	}
+
+	const clauses: FilterQuery<unknown>[] = [];
+
+	for (const [name, value] of Object.entries(raw)) {
+		const field = spec.filters?.[name];
+		if (!field) {
+			attempt(unknownFilter(name, spec));
+			continue;
+		}
+
+		const conditions =
+			typeof value === "string" || Array.isArray(value)
+				? { eq: value }
+				: (value as Record<string, unknown>);
+
+		for (const [operator, operand] of Object.entries(conditions)) {
+			attempt(() => {
+				const key = `filter.${name}.${operator}`;
+				if (!field.operators.includes(operator as FilterOperator)) {
+					throw new ListQueryError(
+						key,
+						`Unsupported operator. Allowed: ${field.operators.join(", ")}`,
+					);
+				}
+				const isStrings =
+					typeof operand === "string" ||
+					(Array.isArray(operand) &&
+						operand.every((item) => typeof item === "string"));
+				if (!isStrings) {
+					throw new ListQueryError(key, "Must be a plain value");
+				}
+
+				const condition = toCondition(
+					operator as FilterOperator,
+					operand as string | string[],
+					field,
+					key,
+				);
+				const paths = [field.path ?? name].flat();
+				clauses.push(
+					paths.length === 1
+						? { [paths[0]]: condition }
+						: { $or: paths.map((path) => ({ [path]: condition })) },
+				);
+			});
+		}
+	}
+
+	return clauses;
+};
+
+/**
+ * Parse `limit`, `cursor` or `page`, `sort` and `filter[...]` against a spec
+ * Every problem is reported at once as a ValidationException whose code is
+ * VAL_OUT_OF_RANGE or VAL_INVALID_FORMAT; other query keys are ignored.
+ */
+export const parseListQuery = (query: ParsedQs, spec: ListSpec): ListQuery => {
+	const details: ValidationErrorDetail[] = [];
+	const attempt = <T>(parse: () => T): T | undefined => {
+		try {
+			return parse();
+		} catch (error) {
+			if (!(error instanceof ListQueryError)) throw error;
+			details.push({
+				field: error.field,
+				message: error.message,
+				code: error.code,
+			});
+			return undefined;
+		}
+	};
+
+	const maxLimit = spec.maxLimit ?? MAX_LIMIT;
+	const limit =
+		attempt(() => readInteger(query, "limit", 1, maxLimit)) ??
+		spec.defaultLimit ??
+		DEFAULT_LIMIT;
+	const page = attempt(() => readInteger(query, "page", 1, MAX_PAGE));
+	const sort =
+		attempt(() =>
+			parseSort(readString(query, "sort") ?? spec.defaultSort, spec),
+		) ?? [];
+	const clauses =
+		attempt(() => parseFilters(query.filter, spec, attempt)) ?? [];
+
+	const cursorToken = attempt(() => readString(query, "cursor"));
+	if (cursorToken !== undefined && page !== undefined) {
+		details.push({
+			field: "cursor",
+			message: "Use either cursor or page, not both",
+			code: ErrorCodeEnum.VAL_INVALID_FORMAT,
+		});
+	}
+	const cursor =
+		cursorToken !== undefined
+			? attempt(() => decodeCursor(cursorToken, sort))
+			: undefined;
+
+	if (details.length) {
+		throw new ValidationException(
+			"Invalid list query",
+			details[0].code as ErrorCodeEnumType,
+			details,
+		);
+	}
+
+	return {
+		filter: clauses.length ? { $and: clauses } : {},
+		sort,
+		limit,
+		page,
+		cursor,
+		countTotal: !!spec.countTotal,
+	};
+};
+
+// ==================== Querying ====================
+
+/**
+ * Documents strictly after the cursor in the `(sort fields..., _id)` order
+ */
+const afterCursor = (
+	sort: SortField[],
+	cursor: Cursor,
+): FilterQuery<unknown> => {
+	const keys = [
+		...sort.map(({ field, direction }, index) => ({
+			field,
+			direction,
+			value: fromCursorValue(cursor.values[index]),
+		})),
+		{
+			field: "_id",
+			direction: sort[0]?.direction ?? -1,
+			value: new Types.ObjectId(cursor.id),
+		},
+	];
+
+	return {
+		$or: keys.map((key, index) => ({
+			...Object.fromEntries(
+				keys
+					.slice(0, index)
+					.map((previous) => [previous.field, previous.value]),
+			),
+			[key.field]: { [key.direction > 0 ? "$gt" : "$lt"]: key.value },
+		})),
+	};
+};
+
+/**
+ * Run a parsed list query; `where` scopes it, e.g. to the current user
+ */
+export const paginate = async <T>(
+	model: Model<T>,
+	{ filter, sort, limit, page, cursor, countTotal }: ListQuery,
+	where: FilterQuery<T> = {},
+) => {
+	const scope = [where, filter].filter((part) => Object.keys(part).length);
+	const tieBreak = sort[0]?.direction ?? -1;
+
+	const conditions = [...scope, ...(cursor ? [afterCursor(sort, cursor)] : [])];
+	const query = (
+		conditions.length ? { $and: conditions } : {}
+	) as FilterQuery<T>;
+
+	const [documents, total] = await Promise.all([
+		model
+			.find(query)
+			.sort({
+				...Object.fromEntries(
+					sort.map(({ field, direction }) => [field, direction]),
+				),
+				_id: tieBreak,
+			})
+			.skip(page ? (page - 1) * limit : 0)
+			.limit(limit + 1),
+		countTotal
+			? model.countDocuments(
+					(scope.length ? { $and: scope } : {}) as FilterQuery<T>,
+				)
+			: undefined,
+	]);
+
+	const hasMore = documents.length > limit;
+	const data = hasMore ? documents.slice(0, limit) : documents;
+	const last = data[data.length - 1];
+
+	return {
+		data,
+		pageInfo: {
+			nextCursor:
+				hasMore && last
+					? encodeCursor({
+							sort: sortKey(sort),
+							values: sort.map(({ field }) => toCursorValue(last.get(field))),
+							id: String(last._id),
+						})
+					: null,
+			hasMore,
+			...(total !== undefined && { total }),
+		},
+	};
+};
+
+/**
+ * Replace each document with its API shape, keeping `pageInfo`
+ */
+export const mapPage = <T, R>(
+	{ data, pageInfo }: { data: T[]; pageInfo: PageInfo },
+	map: (item: T) => R,
+): Page<R> => ({ data: data.map(map), pageInfo });
@@ -1,4 +1,113 @@
+import type { Server } from "node:http";
 import { Env } from "../../configs/env.config";
+import { disconnectDatabase } from "../../database/database";
+import { logger } from "./logger";
+
+// How often idle keep-alive sockets are reaped while in-flight requests drain
+const IDLE_SOCKET_SWEEP_MS = 250;
+const LOGGER_FLUSH_TIMEOUT_MS = 2000;
+
+let httpServer: Server | undefined;
+let shuttingDown = false;
+const shutdownHooks: Array<() => Promise<void>> = [];
+
+/**
+ * True once shutdown has started; readiness checks report 503 from then on
+ */
+export const isShuttingDown = (): boolean => shuttingDown;
+
+/**
+ * Hand the listening server to the shutdown sequence so it can be drained
+ */
+export const registerHttpServer = (server: Server): void => {
+	httpServer = server;
+};
+
+/**
+ * Run `hook` after connections drain and before MongoDB disconnects
+ */
+export const registerShutdownHook = (hook: () => Promise<void>): void => {
+	shutdownHooks.push(hook);
+};
+
+const wait = (ms: number) =>
+	new Promise<void>((resolve) => {
+		setTimeout(resolve, ms);
+	});
+
+/**
+ * Stop accepting connections and wait for in-flight requests until `deadline`,
+ * then destroy whatever sockets are left
+ */
+const drainHttpServer = async (server: Server, deadline: number) => {
+	const closed = new Promise<void>((resolve) => {
+		server.close(() => resolve());
+	});
+
+	const sweep = setInterval(
+		() => server.closeIdleConnections(),
+		IDLE_SOCKET_SWEEP_MS,
+	);
+	server.closeIdleConnections();
+
+	const drained = await Promise.race([
+		closed.then(() => true),
+		wait(Math.max(deadline - Date.now(), 0)).then(() => false),
+	]);
+	clearInterval(sweep);
+
+	if (!drained) {
+		logger.warn("Shutdown deadline reached, closing remaining connections");
+	}
+	server.closeAllConnections();
+};
+
+const flushLogger = () =>
+	Promise.race([
+		new Promise<void>((resolve) => {
+			logger.on("finish", () => resolve());
+			logger.end();
+		}),
+		wait(LOGGER_FLUSH_TIMEOUT_MS),
+	]);
+
+/**
+ * Ordered shutdown: report not-ready for SHUTDOWN_DRAIN_DELAY while still
+ * serving, stop accepting connections, drain in-flight requests up to
+ * SHUTDOWN_TIMEOUT, close leftover sockets, run shutdown hooks, disconnect
+ * MongoDB, flush the logger and exit. Later calls while shutting down are ignored.
+ */
+export const gracefulShutdown = async (
+	reason: string,
+	exitCode = 0,
+): Promise<void> => {
+	if (shuttingDown) return;
+	shuttingDown = true;
+
+	logger.info(`Shutting down (${reason})`);
+
+	try {
+		if (httpServer) {
+			// Give load balancers time to see the 503 and deregister us; a crashed
+			// process should not keep taking traffic, so it closes right away
+			if (exitCode === 0 && Env.SHUTDOWN_DRAIN_DELAY > 0) {
+				await wait(Env.SHUTDOWN_DRAIN_DELAY);
+			}
+			await drainHttpServer(httpServer, Date.now() + Env.SHUTDOWN_TIMEOUT);
+		}
+		for (const hook of shutdownHooks) {
+			await hook();
+		}
+		await disconnectDatabase();
+		logger.info("Shutdown complete");
+	} catch (error) {
+		logger.error("Error during shutdown", { error });
+		exitCode = 1;
+	}
+
+	await flushLogger();
+	process.exit(exitCode);
+};
 
 /**
  * Handle unhandled promise rejections
@@ -7,14 +116,13 @@ import { Env } from "../../configs/env.config";
 export const handleUnhandledRejection = (): void => {
 	process.on(
 		"unhandledRejection",
-		(_reason: unknown, _promise: Promise<unknown>) => {
+		(reason: unknown, _promise: Promise<unknown>) => {
+			logger.error("Unhandled promise rejection", { error: reason });
+
 			// In production, we might want to exit the process
 			// In development, we can continue for debugging
 			if (Env.NODE_ENV === "production") {
-				// Give time for cleanup
-				setTimeout(() => {
-					process.exit(1);
-				}, 1000);
+				void gracefulShutdown("unhandledRejection", 1);
 			}
 		},
 	);
@@ -25,9 +133,11 @@ export const handleUnhandledRejection = (): void => {
  * This catches synchronous errors that weren't caught
  */
 export const handleUncaughtException = (): void => {
-	process.on("uncaughtException", (_error: Error) => {
+	process.on("uncaughtException", (error: Error) => {
+		logger.error("Uncaught exception", { error });
+
 		// Uncaught exceptions are critical - exit the process
-		process.exit(1);
+		void gracefulShutdown("uncaughtException", 1);
 	});
 };
 
@@ -36,8 +146,7 @@ export const handleUncaughtException = (): void => {
  */
 export const handleSIGTERM = (): void => {
 	process.on("SIGTERM", () => {
-		// Close server gracefully
-		process.exit(0);
+		void gracefulShutdown("SIGTERM");
 	});
 };
 
@@ -46,8 +155,7 @@ export const handleSIGTERM = (): void => {
  */
 export const handleSIGINT = (): void => {
 	process.on("SIGINT", () => {
-		// Close server gracefully
-		process.exit(0);
+		void gracefulShutdown("SIGINT");
 	});
 };
 
@@ -0,0 +1,87 @@
+import type { ClientRateLimitInfo, Options, Store } from "express-rate-limit";
+import { RateLimitModel } from "../../database/models/model";
+
+const isDuplicateKeyError = (error: unknown) =>
+	error instanceof Error && "code" in error && error.code === 11000;
+
+/**
+ * express-rate-limit store backed by MongoDB so limits hold across instances
+ * Each key is a fixed window: the first hit after `resetAt` starts a new one.
+ */
+export const createMongoRateLimitStore = (prefix: string): Store => {
+	let windowMs = 60 * 1000;
+
+	const prefixed = (key: string) => `${prefix}:${key}`;
+
+	return {
+		prefix,
+		localKeys: false,
+
+		init: (options: Options) => {
+			windowMs = options.windowMs;
+		},
+
+		get: async (key): Promise<ClientRateLimitInfo | undefined> => {
+			const record = await RateLimitModel.findOne({
+				key: prefixed(key),
+				resetAt: { $gt: new Date() },
+			});
+			return record
+				? { totalHits: record.hits, resetTime: record.resetAt }
+				: undefined;
+		},
+
+		increment: async (key) => {
+			const now = new Date();
+			const expired = {
+				$lte: [{ $ifNull: ["$resetAt", new Date(0)] }, now],
+			};
+
+			// Single atomic round trip: restart the window if it has ended, else count
+			const hit = () =>
+				RateLimitModel.findOneAndUpdate(
+					{ key: prefixed(key) },
+					[
+						{
+							$set: {
+								hits: { $cond: [expired, 1, { $add: ["$hits", 1] }] },
+								resetAt: {
+									$cond: [
+										expired,
+										new Date(now.getTime() + windowMs),
+										"$resetAt",
+									],
+								},
+							},
+						},
+					],
+					{ upsert: true, new: true },
+				);
+
+			let record: Awaited<ReturnType<typeof hit>>;
+			try {
+				record = await hit();
+			} catch (error) {
+				// Concurrent first hits both try to insert the key; the loser retries as an update
+				if (!isDuplicateKeyError(error)) throw error;
+				record = await hit();
+			}
+
+			return {
+				totalHits: record?.hits ?? 1,
+				resetTime: record?.resetAt,
+			};
+		},
+
+		decrement: async (key) => {
+			await RateLimitModel.updateOne(
+				{ key: prefixed(key), hits: { $gt: 0 } },
+				{ $inc: { hits: -1 } },
+			);
+		},
+
+		resetKey: async (key) => {
+			await RateLimitModel.deleteOne({ key: prefixed(key) });
+		},
+	};
+};
@@ -0,0 +1,24 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export type RequestContext = {
+	requestId: string;
+	ipAddress?: string;
+	userAgent?: string;
+};
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run `callback` with a request context that every log line inside it
+ * (including across awaits) can read
+ */
+export const runWithRequestContext = <T>(
+	context: RequestContext,
+	callback: () => T,
+): T => storage.run(context, callback);
+
+export const getRequestContext = (): RequestContext | undefined =>
+	storage.getStore();
+
+export const getRequestId = (): string | undefined =>
+	storage.getStore()?.requestId;
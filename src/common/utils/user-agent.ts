@@ -0,0 +1,59 @@
+export type DeviceInfo = {
+	browser: string;
+	os: string;
+	deviceType: "desktop" | "mobile" | "tablet" | "bot" | "unknown";
+};
+
+// Order matters: Edge and Opera also announce themselves as Chrome
+const BROWSERS: [string, RegExp][] = [
+	["Edge", /Edg(?:e|A|iOS)?\/([\d.]+)/],
+	["Opera", /(?:OPR|Opera)\/([\d.]+)/],
+	["Samsung Internet", /SamsungBrowser\/([\d.]+)/],
+	["Firefox", /(?:Firefox|FxiOS)\/([\d.]+)/],
+	["Chrome", /(?:Chrome|CriOS)\/([\d.]+)/],
+	["Safari", /Version\/([\d.]+).*Safari/],
+];
+
+const OPERATING_SYSTEMS: [string, RegExp][] = [
+	["Windows", /Windows NT/],
+	["iOS", /iPhone|iPad|iPod/],
+	["Android", /Android/],
+	["macOS", /Mac OS X|Macintosh/],
+	["Chrome OS", /CrOS/],
+	["Linux", /Linux/],
+];
+
+const matchFirst = (userAgent: string, candidates: [string, RegExp][]) => {
+	for (const [name, pattern] of candidates) {
+		const match = pattern.exec(userAgent);
+		if (match) {
+			const major = match[1]?.split(".")[0];
+			return major ? `${name} ${major}` : name;
+		}
+	}
+	return "Unknown";
+};
+
+/**
+ * Best-effort parse of a User-Agent header into a human-readable device summary
+ */
+export const parseUserAgent = (userAgent?: string): DeviceInfo => {
+	if (!userAgent) {
+		return { browser: "Unknown", os: "Unknown", deviceType: "unknown" };
+	}
+
+	let deviceType: DeviceInfo["deviceType"] = "desktop";
+	if (/bot|crawler|spider|curl|wget|postman/i.test(userAgent)) {
+		deviceType = "bot";
+	} else if (/iPad|Tablet/i.test(userAgent)) {
+		deviceType = "tablet";
+	} else if (/Mobi|iPhone|Android/i.test(userAgent)) {
+		deviceType = "mobile";
+	}
+
+	return {
+		browser: matchFirst(userAgent, BROWSERS),
+		os: matchFirst(userAgent, OPERATING_SYSTEMS),
+		deviceType,
+	};
+};
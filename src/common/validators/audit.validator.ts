@@ -0,0 +1,38 @@
+import { AuditEventEnum, AuditOutcomeEnum } from "../enums/audit-event.enum";
+import type { ListSpec } from "../utils/pagination";
+
+/**
+ * `?filter[event][in]=LOGIN,LOGOUT&filter[createdAt][gte]=2026-01-01&sort=-createdAt`
+ */
+export const auditLogListSpec = {
+	filters: {
+		event: {
+			type: "string",
+			operators: ["eq", "in", "nin"],
+			values: Object.values(AuditEventEnum),
+		},
+		outcome: {
+			type: "string",
+			operators: ["eq"],
+			values: Object.values(AuditOutcomeEnum),
+		},
+		createdAt: { type: "date", operators: ["gt", "gte", "lt", "lte"] },
+	},
+	sortable: ["createdAt"],
+	defaultSort: "-createdAt",
+} satisfies ListSpec;
+
+export const adminAuditLogListSpec = {
+	...auditLogListSpec,
+	filters: {
+		...auditLogListSpec.filters,
+		// Events the user performed or was the target of
+		userId: {
+			type: "objectId",
+			operators: ["eq"],
+			path: ["actorId", "targetId"],
+		},
+		actorId: { type: "objectId", operators: ["eq"] },
+		targetId: { type: "objectId", operators: ["eq"] },
+	},
+} satisfies ListSpec;
@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+export const emailSchema = z.string().trim().email().min(1).max(255);
+// Not trimmed: surrounding spaces are part of the secret the user typed
+export const passwordSchema = z.string().min(8).max(255);
+
+export const registerSchema = z
+	.object({
+		name: z.string().trim().min(1).max(255),
+		email: emailSchema,
+		password: passwordSchema,
+		confirmPassword: passwordSchema,
+	})
+	.refine((val) => val.password === val.confirmPassword, {
+		message: "Passwords do not match",
+		path: ["confirmPassword"],
+	});
+
+export const verificationCodeSchema = z.string().trim().min(1).max(255);
+
+export const loginSchema = z.object({
+	email: emailSchema,
+	password: passwordSchema,
+});
+
+export const verifyEmailSchema = z.object({
+	code: verificationCodeSchema,
+});
+
+export const forgotPasswordSchema = z.object({
+	email: emailSchema,
+});
+
+export const resetPasswordSchema = z
+	.object({
+		code: verificationCodeSchema,
+		password: passwordSchema,
+		confirmPassword: passwordSchema,
+	})
+	.refine((val) => val.password === val.confirmPassword, {
+		message: "Passwords do not match",
+		path: ["confirmPassword"],
+	});
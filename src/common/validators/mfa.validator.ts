@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+export const totpCodeSchema = z
+	.string()
+	.trim()
+	.regex(/^\d{6}$/, "Code must be 6 digits");
+
+// Authenticator code or a backup code such as "a1b2-c3d4"
+export const mfaCodeSchema = z.string().trim().min(6).max(20);
+
+export const mfaCodeBodySchema = z.object({
+	code: totpCodeSchema,
+});
+
+export const verifyMfaLoginSchema = z.object({
+	mfaToken: z.string().min(1),
+	code: mfaCodeSchema,
+});
@@ -0,0 +1,22 @@
+import { z } from "zod";
+import type { ListSpec } from "../utils/pagination";
+import { objectIdSchema } from "./user.validator";
+
+export const sessionIdParamsSchema = z.object({
+	id: objectIdSchema,
+});
+
+export const sessionListSpec = {
+	filters: {
+		deviceType: {
+			type: "string",
+			operators: ["eq"],
+			values: ["desktop", "mobile", "tablet", "bot", "unknown"],
+			path: "device.deviceType",
+		},
+		lastSeenAt: { type: "date", operators: ["gt", "gte", "lt", "lte"] },
+	},
+	// Not lastSeenAt: it changes while paging, so sessions would skip or repeat
+	sortable: ["createdAt"],
+	defaultSort: "-createdAt",
+} satisfies ListSpec;
@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { RoleEnum, type RoleType } from "../enums/role.enum";
+import { UserStatusEnum } from "../enums/user-status.enum";
+import type { ListSpec } from "../utils/pagination";
+import {
+	emailSchema,
+	passwordSchema,
+	verificationCodeSchema,
+} from "./auth.validator";
+
+export const objectIdSchema = z
+	.string()
+	.regex(/^[a-f\d]{24}$/i, "Must be a valid id");
+
+export const userIdParamsSchema = z.object({
+	userId: objectIdSchema,
+});
+
+const isTimeZone = (value: string) => {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone: value });
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+const canonicalLocale = (value: string) => {
+	try {
+		return Intl.getCanonicalLocales(value)[0];
+	} catch {
+		return undefined;
+	}
+};
+
+export const timezoneSchema = z
+	.string()
+	.trim()
+	.refine(isTimeZone, "Must be an IANA time zone such as Europe/Berlin");
+
+export const localeSchema = z
+	.string()
+	.trim()
+	.refine(
+		(value) => canonicalLocale(value) !== undefined,
+		"Must be a language tag such as en-US",
+	)
+	.transform((value) => canonicalLocale(value) as string);
+
+export const updateProfileSchema = z
+	.object({
+		name: z.string().trim().min(1).max(255),
+		avatarUrl: z.string().trim().url().max(2048).nullable(),
+		timezone: timezoneSchema.nullable(),
+		locale: localeSchema.nullable(),
+	})
+	.partial()
+	.refine((val) => Object.keys(val).length > 0, {
+		message: "Provide at least one field to update",
+	});
+
+export const changePasswordSchema = z
+	.object({
+		currentPassword: z.string().min(1),
+		newPassword: passwordSchema,
+		confirmPassword: passwordSchema,
+	})
+	.refine((val) => val.newPassword === val.confirmPassword, {
+		message: "Passwords do not match",
+		path: ["confirmPassword"],
+	});
+
+export const changeEmailSchema = z.object({
+	newEmail: emailSchema,
+	password: z.string().min(1),
+});
+
+export const emailChangeCodeSchema = z.object({
+	code: verificationCodeSchema,
+});
+
+export const deleteAccountSchema = z.object({
+	password: z.string().min(1),
+});
+
+// Every support/admin action must say why; the reason is kept in the audit log
+export const adminActionSchema = z.object({
+	reason: z.string().trim().min(3).max(500),
+});
+
+export const assignRolesSchema = adminActionSchema.extend({
+	// Replaces the user's roles
+	roles: z
+		.array(z.enum(Object.values(RoleEnum) as [RoleType, ...RoleType[]]))
+		.min(1)
+		.refine((roles) => new Set(roles).size === roles.length, {
+			message: "Roles must not repeat",
+		}),
+});
+
+export const userListSpec = {
+	filters: {
+		// Prefix of the email or name
+		search: {
+			type: "string",
+			operators: ["prefix"],
+			path: ["email", "name"],
+		},
+		email: { type: "string", operators: ["eq", "prefix"] },
+		name: { type: "string", operators: ["prefix"] },
+		role: {
+			type: "string",
+			operators: ["eq", "in"],
+			values: Object.values(RoleEnum),
+			path: "roles",
+		},
+		status: {
+			type: "string",
+			operators: ["eq", "in"],
+			values: Object.values(UserStatusEnum),
+		},
+		isEmailVerified: { type: "boolean", operators: ["eq"] },
+		mfaEnabled: { type: "boolean", operators: ["eq"], path: "mfa.enabled" },
+		createdAt: { type: "date", operators: ["gt", "gte", "lt", "lte"] },
+	},
+	sortable: ["createdAt", "email", "name"],
+	defaultSort: "-createdAt",
+	countTotal: true,
+} satisfies ListSpec;
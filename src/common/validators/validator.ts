@@ -0,0 +1,91 @@
+import type { NextFunction, Request, Response } from "express";
+import type { ParamsDictionary } from "express-serve-static-core";
+import type { ParsedQs } from "qs";
+import type { ZodError, ZodTypeAny, z } from "zod";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import type { AuthenticatedRequest } from "../interface/interface";
+import { ValidationException } from "../utils/app-error";
+
+export type ValidationSchemas = {
+	body?: ZodTypeAny;
+	query?: ZodTypeAny;
+	params?: ZodTypeAny;
+};
+
+export type ValidationErrorDetail = {
+	field: string;
+	message: string;
+	code: string;
+};
+
+type Infer<TSchema, TFallback> = TSchema extends ZodTypeAny
+	? z.output<TSchema>
+	: TFallback;
+
+type ParamsOf<T extends ValidationSchemas> = Infer<
+	T["params"],
+	ParamsDictionary
+>;
+type BodyOf<T extends ValidationSchemas> = Infer<T["body"], unknown>;
+type QueryOf<T extends ValidationSchemas> = Infer<T["query"], ParsedQs>;
+
+/**
+ * Request type for controllers mounted behind `validate(schemas)`
+ *
+ * @example
+ * const schemas = { body: loginSchema };
+ * router.post("/login", validate(schemas), asyncHandler(authController.login));
+ * login: async (req: ValidatedRequest<typeof schemas>, res: Response) => { req.body.email }
+ */
+export type ValidatedRequest<T extends ValidationSchemas> = Request<
+	ParamsOf<T>,
+	unknown,
+	BodyOf<T>,
+	QueryOf<T>
+>;
+
+export type AuthenticatedValidatedRequest<T extends ValidationSchemas> =
+	AuthenticatedRequest<ParamsOf<T>, unknown, BodyOf<T>, QueryOf<T>>;
+
+export const formatZodError = (error: ZodError): ValidationErrorDetail[] =>
+	error.issues.map((issue) => ({
+		field: issue.path.join("."),
+		message: issue.message,
+		code: issue.code,
+	}));
+
+/**
+ * Validation Middleware
+ * Parses the selected request parts and replaces them with the typed output.
+ * Failures are reported together as a single 400 VAL_400 error.
+ */
+export const validate =
+	(schemas: ValidationSchemas) =>
+	(req: Request, _res: Response, next: NextFunction): void => {
+		const details: ValidationErrorDetail[] = [];
+
+		for (const key of ["params", "query", "body"] as const) {
+			const schema = schemas[key];
+			if (!schema) continue;
+
+			const result = schema.safeParse(req[key]);
+			if (result.success) {
+				req[key] = result.data;
+			} else {
+				details.push(...formatZodError(result.error));
+			}
+		}
+
+		if (details.length) {
+			next(
+				new ValidationException(
+					"Validation failed. Please check your input",
+					ErrorCodeEnum.VAL_400,
+					details,
+				),
+			);
+			return;
+		}
+
+		next();
+	};
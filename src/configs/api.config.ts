@@ -0,0 +1,9 @@
+import { Env } from "./env.config";
+
+export const DEFAULT_API_VERSION = 1;
+
+/**
+ * Mount path of a versioned module, e.g. apiPath("auth") -> "/api/v1/auth"
+ */
+export const apiPath = (name: string, version = DEFAULT_API_VERSION) =>
+	`${Env.BASE_PATH}/v${version}/${name}`;
@@ -1,17 +1,303 @@
-import { getEnv } from "../common/utils/get-env";
+import fs from "node:fs";
+import path from "node:path";
+import dotenv from "dotenv";
+import { z } from "zod";
+import { parseDuration } from "../common/utils/date-time";
+
+/**
+ * Load `.env.<NODE_ENV>` and then `.env`
+ * Neither overrides variables that are already set, so precedence is:
+ * process environment > `.env.<NODE_ENV>` > `.env`
+ */
+const loadEnvFiles = (): string[] => {
+	const nodeEnv = process.env.NODE_ENV || "development";
+	const files = [`.env.${nodeEnv}`, ".env"]
+		.map((file) => path.resolve(process.cwd(), file))
+		.filter((file) => fs.existsSync(file));
+
+	for (const file of files) {
+		dotenv.config({ path: file });
+	}
+	return files.map((file) => path.basename(file));
+};
+
+const envFiles = loadEnvFiles();
+
+// ==================== Coercions ====================
+
+const toMilliseconds = (value: string, ctx: z.RefinementCtx) => {
+	try {
+		return parseDuration(value);
+	} catch {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			message: `Invalid duration "${value}" (expected e.g. 30s, 15m, 7d)`,
+		});
+		return z.NEVER;
+	}
+};
+
+const duration = (fallback: string) =>
+	z.string().default(fallback).transform(toMilliseconds);
+
+const booleanString = z
+	.enum(["true", "false", "1", "0"])
+	.transform((value) => value === "true" || value === "1");
+
+const boolean = (fallback: boolean) =>
+	booleanString.default(fallback ? "true" : "false");
+
+// Express `trust proxy`: true/false, a hop count, or comma-separated addresses/subnets
+const trustProxy = z
+	.string()
+	.default("false")
+	.transform((value) => {
+		if (value === "true" || value === "false") return value === "true";
+		return /^\d+$/.test(value) ? Number(value) : value;
+	});
+
+const list = (fallback: string) =>
+	z
+		.string()
+		.default(fallback)
+		.transform((value) =>
+			value
+				.split(",")
+				.map((item) => item.trim())
+				.filter(Boolean),
+		)
+		.pipe(z.array(z.string().url()).min(1));
+
+const port = (fallback: number) =>
+	z.coerce.number().int().min(1).max(65535).default(fallback);
+
+const MIN_PRODUCTION_SECRET_LENGTH = 32;
+
+// BASE_PATH used to include the version (the old default was /api/v1)
+const API_VERSION_SUFFIX = /\/v\d+\/?$/;
+
+// ==================== Schema ====================
+
+const envSchema = z
+	.object({
+		APP_NAME: z.string().default("Express Starter"),
+		PORT: port(8000),
+		NODE_ENV: z
+			.enum(["development", "production", "test"])
+			.default("development"),
+		// Modules mount at `${BASE_PATH}/v<version>/<name>`
+		BASE_PATH: z.string().startsWith("/").default("/api"),
+		FRONTEND_ORIGIN: list("http://localhost:3000"),
+		MONGO_URI: z
+			.string()
+			.regex(/^mongodb(\+srv)?:\/\//, "Must be a mongodb:// URI")
+			.default("mongodb://localhost:27017/database_name"),
+		TRUST_PROXY: trustProxy,
+		SHUTDOWN_TIMEOUT: duration("10s"),
+		// Defaults to 5s in production and 0s elsewhere
+		SHUTDOWN_DRAIN_DELAY: z.string().transform(toMilliseconds).optional(),
+		// Defaults to on everywhere except production
+		API_DOCS_ENABLED: booleanString.optional(),
+
+		LOG_LEVEL: z
+			.enum(["error", "warn", "info", "http", "verbose", "debug"])
+			.optional(),
+		LOG_DIR: z.string().default("logs"),
+		LOG_MAX_FILES: z.string().default("14d"),
+
+		// Clients can still ask for either with the Accept header
+		ERROR_FORMAT: z.enum(["json", "problem+json"]).default("json"),
+		ERROR_TYPE_BASE_URI: z
+			.string()
+			.url()
+			.transform((value) => value.replace(/\/+$/, ""))
+			.optional(),
+
+		AUDIT_LOG_RETENTION: duration("365d"),
+		ACCOUNT_DELETION_GRACE_PERIOD: duration("30d"),
+		ACCOUNT_DELETION_SWEEP_INTERVAL: duration("1h"),
+
+		JWT_SECRET: z.string(),
+		JWT_EXPIRES_IN: duration("15m"),
+		JWT_REFRESH_SECRET: z.string(),
+		JWT_REFRESH_EXPIRES_IN: duration("30d"),
+
+		MAILER_TRANSPORT: z.enum(["resend", "smtp", "outbox"]).default("outbox"),
+		MAILER_SENDER: z.string().default("noreply@localhost"),
+		MAILER_MAX_RETRIES: z.coerce.number().int().min(0).default(3),
+		MAILER_OUTBOX_DIR: z.string().default("tmp/outbox"),
+		RESEND_API_KEY: z.string().optional(),
+		SMTP_HOST: z.string().optional(),
+		SMTP_PORT: port(587),
+		SMTP_SECURE: boolean(false),
+		SMTP_USER: z.string().optional(),
+		SMTP_PASS: z.string().optional(),
+	})
+	.superRefine((env, ctx) => {
+		if (env.NODE_ENV === "production") {
+			for (const key of ["JWT_SECRET", "JWT_REFRESH_SECRET"] as const) {
+				if (env[key].length < MIN_PRODUCTION_SECRET_LENGTH) {
+					ctx.addIssue({
+						code: z.ZodIssueCode.custom,
+						path: [key],
+						message: `Must be at least ${MIN_PRODUCTION_SECRET_LENGTH} characters in production`,
+					});
+				}
+			}
+		}
+		if (env.MAILER_TRANSPORT === "resend" && !env.RESEND_API_KEY) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["RESEND_API_KEY"],
+				message: "Required when MAILER_TRANSPORT=resend",
+			});
+		}
+		if (env.MAILER_TRANSPORT === "smtp" && !env.SMTP_HOST) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["SMTP_HOST"],
+				message: "Required when MAILER_TRANSPORT=smtp",
+			});
+		}
+	});
+
+type RawEnv = z.infer<typeof envSchema>;
+
+// Older `.env.example` files used MONGODB_URL
+const readProcessEnv = (): Record<string, string | undefined> => {
+	const source = { ...process.env };
+	source.MONGO_URI ??= source.MONGODB_URL;
+
+	// Treat empty assignments (`SMTP_USER=`) as unset so defaults apply
+	for (const [key, value] of Object.entries(source)) {
+		if (value === "") delete source[key];
+	}
+	return source;
+};
+
+/**
+ * Validate the whole environment at once so every problem is reported together
+ */
+const parseEnv = (): RawEnv => {
+	const result = envSchema.safeParse(readProcessEnv());
+
+	if (!result.success) {
+		const problems = result.error.issues
+			.map((issue) => `  - ${issue.path.join(".")}: ${issue.message}`)
+			.join("\n");
+		throw new Error(`Invalid environment configuration:\n${problems}`);
+	}
+	return result.data;
+};
+
+const raw = parseEnv();
 
 export const Env = {
-	PORT: getEnv("PORT", "8000"),
-	NODE_ENV: getEnv("NODE_ENV", "development"),
-	BASE_PATH: getEnv("BASE_PATH", "/api/v1"),
-	FRONTEND_ORIGIN: getEnv("FRONTEND_ORIGIN", "http://localhost:3000"),
-	MONGO_URI: getEnv("MONGO_URI", "mongodb://localhost:27017/database_name"),
+	APP_NAME: raw.APP_NAME,
+	PORT: raw.PORT,
+	NODE_ENV: raw.NODE_ENV,
+	BASE_PATH: raw.BASE_PATH.replace(API_VERSION_SUFFIX, "") || "/",
+	FRONTEND_ORIGIN: raw.FRONTEND_ORIGIN,
+	MONGO_URI: raw.MONGO_URI,
+	// Which proxies may set X-Forwarded-For, so `req.ip` is the client address
+	TRUST_PROXY: raw.TRUST_PROXY,
+	// How long in-flight requests may take to finish once shutdown starts (ms)
+	SHUTDOWN_TIMEOUT: raw.SHUTDOWN_TIMEOUT,
+	// How long readiness reports 503 before connections start closing (ms)
+	SHUTDOWN_DRAIN_DELAY:
+		raw.SHUTDOWN_DRAIN_DELAY ?? (raw.NODE_ENV === "production" ? 5000 : 0),
+	API_DOCS_ENABLED: raw.API_DOCS_ENABLED ?? raw.NODE_ENV !== "production",
+	LOG: {
+		LEVEL: raw.LOG_LEVEL ?? (raw.NODE_ENV === "production" ? "info" : "debug"),
+		DIR: raw.LOG_DIR,
+		MAX_FILES: raw.LOG_MAX_FILES,
+	},
+	ERRORS: {
+		FORMAT: raw.ERROR_FORMAT,
+		TYPE_BASE_URI: raw.ERROR_TYPE_BASE_URI,
+	},
+	// Durations are in milliseconds
+	AUDIT_LOG: {
+		RETENTION: raw.AUDIT_LOG_RETENTION,
+	},
+	ACCOUNT_DELETION: {
+		GRACE_PERIOD: raw.ACCOUNT_DELETION_GRACE_PERIOD,
+		SWEEP_INTERVAL: raw.ACCOUNT_DELETION_SWEEP_INTERVAL,
+	},
+	// Lifetimes are in milliseconds
 	JWT: {
-		SECRET: getEnv("JWT_SECRET"),
-		EXPIRES_IN: getEnv("JWT_EXPIRES_IN", "15m"),
-		REFRESH_SECRET: getEnv("JWT_REFRESH_SECRET"),
-		REFRESH_EXPIRES_IN: getEnv("JWT_REFRESH_EXPIRES_IN", "30d"),
+		SECRET: raw.JWT_SECRET,
+		EXPIRES_IN: raw.JWT_EXPIRES_IN,
+		REFRESH_SECRET: raw.JWT_REFRESH_SECRET,
+		REFRESH_EXPIRES_IN: raw.JWT_REFRESH_EXPIRES_IN,
+	},
+	MAILER: {
+		TRANSPORT: raw.MAILER_TRANSPORT,
+		SENDER: raw.MAILER_SENDER,
+		MAX_RETRIES: raw.MAILER_MAX_RETRIES,
+		RESEND_API_KEY: raw.RESEND_API_KEY,
+		SMTP: {
+			HOST: raw.SMTP_HOST,
+			PORT: raw.SMTP_PORT,
+			SECURE: raw.SMTP_SECURE,
+			USER: raw.SMTP_USER,
+			PASS: raw.SMTP_PASS,
+		},
+		OUTBOX_DIR: raw.MAILER_OUTBOX_DIR,
 	},
-	//   MAILER_SENDER: getEnv("MAILER_SENDER"),
-	//   RESEND_API_KEY: getEnv("RESEND_API_KEY"),
 } as const;
+
+// ==================== Startup report ====================
+
+const SECRET_KEYS = new Set<keyof RawEnv>([
+	"JWT_SECRET",
+	"JWT_REFRESH_SECRET",
+	"RESEND_API_KEY",
+	"SMTP_PASS",
+]);
+
+const MASK = "********";
+
+const maskUrlCredentials = (value: string) => {
+	try {
+		const url = new URL(value);
+		if (url.password) url.password = MASK;
+		return url.toString();
+	} catch {
+		return value;
+	}
+};
+
+/**
+ * Effective configuration with secrets masked, for logging at startup
+ */
+/**
+ * Settings that were accepted but should be changed
+ */
+export const getEnvWarnings = (): string[] => {
+	const warnings: string[] = [];
+
+	if (API_VERSION_SUFFIX.test(raw.BASE_PATH)) {
+		warnings.push(
+			`BASE_PATH=${raw.BASE_PATH} includes an API version; using ${Env.BASE_PATH}, since modules add /v<version> themselves`,
+		);
+	}
+	return warnings;
+};
+
+export const getEnvSummary = (): Record<string, unknown> => {
+	const summary: Record<string, unknown> = { ENV_FILES: envFiles };
+
+	for (const [key, value] of Object.entries(raw) as [keyof RawEnv, unknown][]) {
+		if (value === undefined) continue;
+
+		if (SECRET_KEYS.has(key)) {
+			summary[key] = MASK;
+		} else if (key === "MONGO_URI") {
+			summary[key] = maskUrlCredentials(String(value));
+		} else {
+			summary[key] = value;
+		}
+	}
+	return summary;
+};
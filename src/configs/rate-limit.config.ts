@@ -0,0 +1,32 @@
+import { parseDuration } from "../common/utils/date-time";
+
+export type RateLimitKeyType = "ip" | "user" | "apiKey";
+
+export type RateLimitPolicy = {
+	windowMs: number;
+	max: number;
+	// What identifies a client; user and apiKey fall back to the IP when absent
+	keyBy: RateLimitKeyType;
+	// Count each route it is mounted on separately instead of sharing one bucket
+	perRoute?: boolean;
+};
+
+export const RateLimitPolicies = {
+	// Every request, mounted app-wide
+	global: { windowMs: parseDuration("15m"), max: 300, keyBy: "ip" },
+	// Credential and code endpoints that attackers would brute force
+	authSensitive: {
+		windowMs: parseDuration("15m"),
+		max: 20,
+		keyBy: "ip",
+		perRoute: true,
+	},
+	// Token refresh runs routinely from every open tab, so it gets more headroom
+	tokenRefresh: { windowMs: parseDuration("15m"), max: 120, keyBy: "ip" },
+	// Authenticated traffic, mount after `authenticate`
+	perUser: { windowMs: parseDuration("1m"), max: 120, keyBy: "user" },
+	// Machine clients identified by the X-API-Key header
+	apiKey: { windowMs: parseDuration("1m"), max: 600, keyBy: "apiKey" },
+} as const satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RateLimitPolicies;
@@ -0,0 +1,45 @@
+import {
+	PermissionEnum,
+	type PermissionType,
+	RoleEnum,
+	type RoleType,
+} from "../common/enums/role.enum";
+
+/**
+ * Static role → permission map
+ * Regular users act only on their own resources, which needs no permission
+ */
+export const RolePermissions: Record<RoleType, readonly PermissionType[]> = {
+	[RoleEnum.USER]: [],
+	[RoleEnum.SUPPORT]: [
+		PermissionEnum.USERS_READ,
+		PermissionEnum.USERS_UNLOCK,
+		PermissionEnum.USERS_RESET_PASSWORD,
+		PermissionEnum.SESSIONS_READ,
+		PermissionEnum.SESSIONS_REVOKE,
+		PermissionEnum.MFA_RESET,
+		PermissionEnum.AUDIT_READ,
+	],
+	[RoleEnum.ADMIN]: Object.values(PermissionEnum),
+};
+
+export const getPermissions = (roles: readonly RoleType[]) =>
+	new Set(roles.flatMap((role) => RolePermissions[role] ?? []));
+
+/**
+ * Permissions `roles` grant that `otherRoles` do not
+ */
+export const permissionsBeyond = (
+	roles: readonly RoleType[],
+	otherRoles: readonly RoleType[],
+) => {
+	const others = getPermissions(otherRoles);
+	return [...getPermissions(roles)].filter(
+		(permission) => !others.has(permission),
+	);
+};
+
+export const hasPermission = (
+	roles: readonly RoleType[],
+	permission: PermissionType,
+) => getPermissions(roles).has(permission);
@@ -1,12 +1,20 @@
 import mongoose from "mongoose";
+import { logger } from "../common/utils/logger";
 import { Env } from "../configs/env.config";
 
 export const connectDatabase = async () => {
 	try {
 		await mongoose.connect(Env.MONGO_URI);
-		console.log("Connected to MongoDB");
+		logger.info("Connected to MongoDB");
 	} catch (error) {
-		console.error("Error connecting to MongoDB", error);
+		logger.error("Error connecting to MongoDB", { error });
 		throw new Error("Error connecting to MongoDB");
 	}
 };
+
+export const disconnectDatabase = async () => {
+	if (mongoose.connection.readyState === 0) return;
+
+	await mongoose.disconnect();
+	logger.info("Disconnected from MongoDB");
+};
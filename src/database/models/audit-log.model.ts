@@ -0,0 +1,67 @@
+import mongoose, { type Document, Schema, type Types } from "mongoose";
+import {
+	AuditEventEnum,
+	type AuditEventEnumType,
+	AuditOutcomeEnum,
+	type AuditOutcomeEnumType,
+} from "../../common/enums/audit-event.enum";
+
+/**
+ * Append-only record of a security-relevant event
+ * `actorId` performed the action; `targetId` is the account it affected.
+ * Records are only ever anonymised (account deletion) or expired, never edited.
+ */
+export interface AuditLogDocument extends Document {
+	event: AuditEventEnumType;
+	outcome: AuditOutcomeEnumType;
+	actorId?: Types.ObjectId;
+	targetId?: Types.ObjectId;
+	ipAddress?: string;
+	userAgent?: string;
+	requestId?: string;
+	details?: Record<string, unknown>;
+	createdAt: Date;
+	expiresAt: Date;
+}
+
+const auditLogSchema = new Schema<AuditLogDocument>({
+	event: {
+		type: String,
+		enum: Object.values(AuditEventEnum),
+		required: true,
+	},
+	outcome: {
+		type: String,
+		enum: Object.values(AuditOutcomeEnum),
+		required: true,
+	},
+	actorId: { type: Schema.Types.ObjectId, ref: "User" },
+	targetId: { type: Schema.Types.ObjectId, ref: "User" },
+	ipAddress: { type: String },
+	userAgent: { type: String },
+	requestId: { type: String },
+	details: { type: Schema.Types.Mixed },
+	createdAt: { type: Date, default: Date.now },
+	expiresAt: { type: Date, required: true },
+});
+
+// Newest-first scans (sorted by createdAt, then _id) overall, per user and per event type
+auditLogSchema.index({ createdAt: -1, _id: -1 });
+auditLogSchema.index({ targetId: 1, createdAt: -1, _id: -1 });
+auditLogSchema.index({ actorId: 1, createdAt: -1, _id: -1 });
+auditLogSchema.index({ event: 1, createdAt: -1, _id: -1 });
+
+// Retention is fixed when a record is written, so changing it never needs a reindex
+auditLogSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+auditLogSchema.set("toJSON", {
+	transform: (_doc, ret) => {
+		const { __v: _version, expiresAt: _expiresAt, ...record } = ret;
+		return record;
+	},
+});
+
+export const AuditLogModel = mongoose.model<AuditLogDocument>(
+	"AuditLog",
+	auditLogSchema,
+);
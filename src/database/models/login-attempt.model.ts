@@ -0,0 +1,31 @@
+import mongoose, { type Document, Schema } from "mongoose";
+
+/**
+ * Failed login/MFA attempt counter, one record per account or per IP
+ * `lockCount` survives a lock expiring so repeat offenders back off exponentially
+ */
+export interface LoginAttemptDocument extends Document {
+	key: string;
+	failures: number;
+	lockCount: number;
+	lockedUntil?: Date;
+	lastFailureAt: Date;
+	expiresAt: Date;
+}
+
+const loginAttemptSchema = new Schema<LoginAttemptDocument>({
+	key: { type: String, required: true, unique: true },
+	failures: { type: Number, default: 0 },
+	lockCount: { type: Number, default: 0 },
+	lockedUntil: { type: Date },
+	lastFailureAt: { type: Date, default: Date.now },
+	expiresAt: { type: Date, required: true },
+});
+
+// Forget an account's or IP's history once it has been quiet long enough
+loginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const LoginAttemptModel = mongoose.model<LoginAttemptDocument>(
+	"LoginAttempt",
+	loginAttemptSchema,
+);
@@ -0,0 +1,7 @@
+export * from "./audit-log.model";
+export * from "./login-attempt.model";
+export * from "./rate-limit.model";
+export * from "./refresh-token.model";
+export * from "./session.model";
+export * from "./user.model";
+export * from "./verification-code.model";
@@ -0,0 +1,21 @@
+import mongoose, { type Document, Schema } from "mongoose";
+
+export interface RateLimitDocument extends Document {
+	key: string;
+	hits: number;
+	resetAt: Date;
+}
+
+const rateLimitSchema = new Schema<RateLimitDocument>({
+	key: { type: String, required: true, unique: true },
+	hits: { type: Number, default: 0 },
+	resetAt: { type: Date, required: true },
+});
+
+// Windows that ended are dropped by MongoDB; increment also resets them eagerly
+rateLimitSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimitModel = mongoose.model<RateLimitDocument>(
+	"RateLimit",
+	rateLimitSchema,
+);
@@ -0,0 +1,46 @@
+import mongoose, { type Document, Schema, type Types } from "mongoose";
+
+/**
+ * One record per refresh token ever issued
+ * Records sharing a `family` descend from the same login; presenting a
+ * token that was already rotated revokes the whole family
+ */
+export interface RefreshTokenDocument extends Document {
+	tokenHash: string;
+	family: string;
+	userId: Types.ObjectId;
+	sessionId: Types.ObjectId;
+	rotatedAt?: Date;
+	revokedAt?: Date;
+	expiresAt: Date;
+	createdAt: Date;
+}
+
+const refreshTokenSchema = new Schema<RefreshTokenDocument>({
+	tokenHash: { type: String, required: true, unique: true },
+	family: { type: String, required: true, index: true },
+	userId: {
+		type: Schema.Types.ObjectId,
+		ref: "User",
+		required: true,
+		index: true,
+	},
+	sessionId: {
+		type: Schema.Types.ObjectId,
+		ref: "Session",
+		required: true,
+		index: true,
+	},
+	rotatedAt: { type: Date },
+	revokedAt: { type: Date },
+	expiresAt: { type: Date, required: true },
+	createdAt: { type: Date, default: Date.now },
+});
+
+// Let MongoDB drop records once the token could no longer be presented
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshTokenModel = mongoose.model<RefreshTokenDocument>(
+	"RefreshToken",
+	refreshTokenSchema,
+);
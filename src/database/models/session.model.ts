@@ -0,0 +1,56 @@
+import mongoose, { type Document, Schema, type Types } from "mongoose";
+import { fromNow } from "../../common/utils/date-time";
+import type { DeviceInfo } from "../../common/utils/user-agent";
+import { Env } from "../../configs/env.config";
+
+export interface SessionDocument extends Document {
+	userId: Types.ObjectId;
+	userAgent?: string;
+	device: DeviceInfo;
+	ipAddress?: string;
+	tokenFamily: string;
+	revokedAt?: Date;
+	lastSeenAt: Date;
+	expiresAt: Date;
+	createdAt: Date;
+}
+
+const sessionSchema = new Schema<SessionDocument>({
+	userId: {
+		type: Schema.Types.ObjectId,
+		ref: "User",
+		required: true,
+		index: true,
+	},
+	userAgent: { type: String },
+	device: {
+		browser: { type: String, default: "Unknown" },
+		os: { type: String, default: "Unknown" },
+		deviceType: { type: String, default: "unknown" },
+	},
+	ipAddress: { type: String },
+	tokenFamily: { type: String, required: true, index: true },
+	revokedAt: { type: Date },
+	lastSeenAt: { type: Date, default: Date.now },
+	expiresAt: {
+		type: Date,
+		required: true,
+		default: () => fromNow(Env.JWT.REFRESH_EXPIRES_IN),
+	},
+	createdAt: { type: Date, default: Date.now },
+});
+
+// MongoDB removes sessions as soon as they expire
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+sessionSchema.set("toJSON", {
+	transform: (_doc, ret) => {
+		const { tokenFamily: _family, __v: _version, ...session } = ret;
+		return session;
+	},
+});
+
+export const SessionModel = mongoose.model<SessionDocument>(
+	"Session",
+	sessionSchema,
+);
@@ -0,0 +1,127 @@
+import mongoose, { type Document, Schema } from "mongoose";
+import { RoleEnum, type RoleType } from "../../common/enums/role.enum";
+import {
+	UserStatusEnum,
+	type UserStatusEnumType,
+} from "../../common/enums/user-status.enum";
+import {
+	type SerializableUser,
+	serializeUser,
+} from "../../common/serializers/user.serializer";
+import { compareValue, hashValue } from "../../common/utils/bcrypt";
+
+export interface BackupCode {
+	codeHash: string;
+	usedAt?: Date;
+}
+
+export interface UserMfa {
+	enabled: boolean;
+	secret?: string;
+	pendingSecret?: string;
+	backupCodes: BackupCode[];
+	enabledAt?: Date;
+	// Time step of the last accepted TOTP code; codes from it or earlier are replays
+	lastUsedStep?: number;
+}
+
+export interface UserDeletion {
+	requestedAt: Date;
+	scheduledFor: Date;
+	// Set while the sweeper is erasing the account
+	claimedAt?: Date;
+}
+
+export interface UserDocument extends Document {
+	name: string;
+	email: string;
+	password: string;
+	avatarUrl?: string;
+	// IANA time zone used to format dates in emails
+	timezone?: string;
+	// BCP 47 language tag
+	locale?: string;
+	isEmailVerified: boolean;
+	status: UserStatusEnumType;
+	roles: RoleType[];
+	mfa: UserMfa;
+	// Present while a requested deletion is pending
+	deletion?: UserDeletion;
+	createdAt: Date;
+	updatedAt: Date;
+	comparePassword(value: string): Promise<boolean>;
+}
+
+const backupCodeSchema = new Schema<BackupCode>(
+	{
+		codeHash: { type: String, required: true },
+		usedAt: { type: Date },
+	},
+	{ _id: false },
+);
+
+const userSchema = new Schema<UserDocument>(
+	{
+		name: { type: String, required: true, trim: true },
+		email: {
+			type: String,
+			required: true,
+			unique: true,
+			lowercase: true,
+			trim: true,
+		},
+		password: { type: String, required: true, select: false },
+		avatarUrl: { type: String, trim: true },
+		timezone: { type: String },
+		locale: { type: String },
+		isEmailVerified: { type: Boolean, default: false },
+		status: {
+			type: String,
+			enum: Object.values(UserStatusEnum),
+			default: UserStatusEnum.ACTIVE,
+		},
+		roles: {
+			type: [{ type: String, enum: Object.values(RoleEnum) }],
+			default: [RoleEnum.USER],
+		},
+		mfa: {
+			enabled: { type: Boolean, default: false },
+			secret: { type: String, select: false },
+			pendingSecret: { type: String, select: false },
+			backupCodes: { type: [backupCodeSchema], default: [], select: false },
+			enabledAt: { type: Date },
+			lastUsedStep: { type: Number, select: false },
+		},
+		deletion: {
+			type: new Schema<UserDeletion>(
+				{
+					requestedAt: { type: Date, required: true },
+					scheduledFor: { type: Date, required: true },
+					claimedAt: { type: Date },
+				},
+				{ _id: false },
+			),
+		},
+	},
+	{ timestamps: true },
+);
+
+userSchema.index({ "deletion.scheduledFor": 1 }, { sparse: true });
+
+userSchema.pre("save", async function (next) {
+	if (this.isModified("password")) {
+		this.password = await hashValue(this.password);
+	}
+	next();
+});
+
+userSchema.methods.comparePassword = async function (value: string) {
+	return compareValue(value, this.password);
+};
+
+// Anything that ends up in res.json goes through the same whitelist
+userSchema.set("toJSON", {
+	transform: (_doc, ret) => serializeUser(ret as SerializableUser),
+});
+
+export const UserModel = mongoose.model<UserDocument>("User", userSchema);
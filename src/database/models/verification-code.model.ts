@@ -0,0 +1,46 @@
+import mongoose, { type Document, Schema, type Types } from "mongoose";
+import {
+	VerificationCodeEnum,
+	type VerificationCodeEnumType,
+} from "../../common/enums/verification-code.enum";
+
+export interface VerificationCodeDocument extends Document {
+	userId: Types.ObjectId;
+	type: VerificationCodeEnumType;
+	codeHash: string;
+	// New address for EMAIL_CHANGE, previous address for EMAIL_CHANGE_REVERT
+	email?: string;
+	usedAt?: Date;
+	expiresAt: Date;
+	createdAt: Date;
+}
+
+const verificationCodeSchema = new Schema<VerificationCodeDocument>({
+	userId: {
+		type: Schema.Types.ObjectId,
+		ref: "User",
+		required: true,
+		index: true,
+	},
+	type: {
+		type: String,
+		enum: Object.values(VerificationCodeEnum),
+		required: true,
+	},
+	codeHash: { type: String, required: true, unique: true },
+	email: { type: String, lowercase: true, trim: true },
+	usedAt: { type: Date },
+	expiresAt: { type: Date, required: true },
+	createdAt: { type: Date, default: Date.now },
+});
+
+// Keep expired codes for a day so late attempts report AUTH_TOKEN_EXPIRED
+verificationCodeSchema.index(
+	{ expiresAt: 1 },
+	{ expireAfterSeconds: 24 * 60 * 60 },
+);
+
+export const VerificationCodeModel = mongoose.model<VerificationCodeDocument>(
+	"VerificationCode",
+	verificationCodeSchema,
+);
@@ -1,27 +1,51 @@
-import "dotenv/config";
 import cookieParser from "cookie-parser";
 import cors from "cors";
 import express, { type Request, type Response } from "express";
-import { initializeProcessHandlers } from "./common/utils/process-handlers";
-import { Env } from "./configs/env.config";
+import passport from "passport";
+import { findMissingTranslations } from "./common/i18n/error-messages";
+import { setupJwtStrategy } from "./common/strategies/strategies";
+import { logger } from "./common/utils/logger";
+import {
+	discoverModules,
+	initModules,
+	mountModules,
+	shutdownModules,
+} from "./common/utils/module-loader";
+import {
+	initializeProcessHandlers,
+	registerHttpServer,
+	registerShutdownHook,
+} from "./common/utils/process-handlers";
+import { Env, getEnvSummary, getEnvWarnings } from "./configs/env.config";
 import { HTTPSTATUS } from "./configs/http.config";
 import { connectDatabase } from "./database/database";
+import { accessLog } from "./middlewares/accessLog.middleware";
 import { asyncHandler } from "./middlewares/asyncHandler.middleware";
 import { errorHandler } from "./middlewares/errorHandler.middleware";
 import { notFoundHandler } from "./middlewares/notFound.middleware";
+import { rateLimit } from "./middlewares/rateLimit.middleware";
+import { requestId } from "./middlewares/requestId.middleware";
 
 // Initialize process-level error handlers (must be done early)
 initializeProcessHandlers();
 
 const app = express();
-// const BASE_PATH = Env.BASE_PATH;
+const BASE_PATH = Env.BASE_PATH;
+
+// Rate limits and lockouts key on req.ip, which is the proxy's unless trusted
+app.set("trust proxy", Env.TRUST_PROXY);
 
 // Middleware
+app.use(requestId);
+app.use(accessLog);
 app.use(express.json());
 app.use(cookieParser());
 app.use(express.urlencoded({ extended: true }));
 app.use(cors({ origin: Env.FRONTEND_ORIGIN, credentials: true }));
 
+setupJwtStrategy(passport);
+app.use(passport.initialize());
+
 // Routes
 app.get(
 	"/",
@@ -33,16 +57,12 @@ app.get(
 	}),
 );
 
-app.get(
-	"/health",
-	asyncHandler(async (_req: Request, res: Response) => {
-		res.status(HTTPSTATUS.OK).json({
-			message: "Server is healthy",
-			status: "OK",
-			timestamp: new Date().toISOString(),
-		});
-	}),
-);
+app.use(BASE_PATH, rateLimit("global"));
+
+// Feature modules from src/modules/*/*.module.ts
+const modules = discoverModules();
+mountModules(app, modules);
+registerShutdownHook(() => shutdownModules(modules));
 
 // 404 Handler - must be after all routes but before error handler
 app.use(notFoundHandler);
@@ -51,7 +71,20 @@ app.use(notFoundHandler);
 app.use(errorHandler);
 
 // Start server
-app.listen(Env.PORT, async () => {
+const server = app.listen(Env.PORT, async () => {
+	logger.info("Configuration loaded", getEnvSummary());
+	for (const warning of getEnvWarnings()) {
+		logger.warn(warning);
+	}
+
+	// Those codes fall back to the English message thrown in code
+	const missingTranslations = findMissingTranslations();
+	if (Object.keys(missingTranslations).length) {
+		logger.warn("Error messages without translations", missingTranslations);
+	}
 	await connectDatabase();
-	console.log(`Server running on port ${Env.PORT} in ${Env.NODE_ENV} mode`);
+	await initModules(modules);
+	logger.info(`Server running on port ${Env.PORT} in ${Env.NODE_ENV} mode`);
 });
+
+registerHttpServer(server);
@@ -0,0 +1,101 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import { ErrorCodeEnum } from "../common/enums/error-code.enum";
+import { ExternalServiceException } from "../common/utils/app-error";
+import { Env } from "../configs/env.config";
+import { createOutboxTransport } from "./outboxTransport";
+import { createResendTransport } from "./resendClient";
+import { createSmtpTransport } from "./smtpTransport";
+import {
+	type RenderOptions,
+	renderTemplate,
+	type TemplateName,
+	type TemplateVariables,
+} from "./template";
+import { MailDeliveryError, type Mailer, type MailResult } from "./transport";
+
+type MailOptions = {
+	to: string | string[];
+	subject: string;
+	text: string;
+	html: string;
+	from?: string;
+	replyTo?: string;
+};
+
+const BASE_RETRY_DELAY_MS = 250;
+
+export const createMailer = (
+	transport: string = Env.MAILER.TRANSPORT,
+): Mailer => {
+	switch (transport) {
+		case "resend":
+			return createResendTransport(Env.MAILER.RESEND_API_KEY);
+		case "smtp":
+			return createSmtpTransport({
+				host: Env.MAILER.SMTP.HOST,
+				port: Env.MAILER.SMTP.PORT,
+				secure: Env.MAILER.SMTP.SECURE,
+				user: Env.MAILER.SMTP.USER,
+				pass: Env.MAILER.SMTP.PASS,
+			});
+		case "outbox":
+			return createOutboxTransport(Env.MAILER.OUTBOX_DIR);
+		default:
+			throw new Error(`Unknown MAILER_TRANSPORT: ${transport}`);
+	}
+};
+
+export const mailer = createMailer();
+
+/**
+ * Send through the configured transport
+ * Transient failures are retried with exponential backoff and jitter;
+ * anything left over surfaces as ExternalServiceException
+ */
+export const sendEmail = async ({
+	to,
+	from = Env.MAILER.SENDER,
+	...message
+}: MailOptions): Promise<MailResult> => {
+	const maxRetries = Env.MAILER.MAX_RETRIES;
+	const recipients = Array.isArray(to) ? to : [to];
+
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await mailer.send({ ...message, from, to: recipients });
+		} catch (error) {
+			const transient = error instanceof MailDeliveryError && error.transient;
+
+			if (!transient || attempt >= maxRetries) {
+				throw new ExternalServiceException(
+					"Failed to send email",
+					ErrorCodeEnum.EXT_API_ERROR,
+					{
+						transport: mailer.name,
+						attempts: attempt + 1,
+						reason: error instanceof Error ? error.message : String(error),
+					},
+				);
+			}
+
+			const delay = BASE_RETRY_DELAY_MS * 2 ** attempt;
+			await sleep(delay + Math.random() * delay);
+		}
+	}
+};
+
+/**
+ * Render a built-in template and send it
+ *
+ * @example
+ * await sendTemplate(
+ *   "passwordReset",
+ *   { code, expiresAt },
+ *   { to: user.email, timeZone: user.timezone },
+ * );
+ */
+export const sendTemplate = async <TName extends TemplateName>(
+	name: TName,
+	vars: TemplateVariables<TName>,
+	{ to, timeZone }: { to: string | string[] } & RenderOptions,
+) => sendEmail({ to, ...renderTemplate(name, vars, { timeZone }) });
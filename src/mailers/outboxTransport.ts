@@ -0,0 +1,34 @@
+import { randomUUID } from "node:crypto";
+import { constants } from "node:fs";
+import { access, mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Mailer } from "./transport";
+
+/**
+ * Development/test transport
+ * Writes each message to `<dir>/<timestamp>-<id>.json` plus a sibling `.html`
+ * so tests can assert on sent mail without network access
+ */
+export const createOutboxTransport = (dir: string): Mailer => ({
+	name: "outbox",
+	send: async (message) => {
+		const id = randomUUID();
+		const sentAt = new Date().toISOString();
+		const basename = `${sentAt.replace(/[:.]/g, "-")}-${id}`;
+
+		await mkdir(dir, { recursive: true });
+		await Promise.all([
+			writeFile(
+				path.join(dir, `${basename}.json`),
+				JSON.stringify({ id, sentAt, ...message }, null, 2),
+			),
+			writeFile(path.join(dir, `${basename}.html`), message.html),
+		]);
+
+		return { id };
+	},
+	verify: async () => {
+		await mkdir(dir, { recursive: true });
+		await access(dir, constants.W_OK);
+	},
+});
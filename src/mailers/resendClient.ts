@@ -0,0 +1,48 @@
+import { Resend } from "resend";
+import { MailDeliveryError, type Mailer } from "./transport";
+
+// Resend error names worth another attempt; everything else is a caller error
+const TRANSIENT_ERRORS = new Set([
+	"rate_limit_exceeded",
+	"application_error",
+	"internal_server_error",
+]);
+
+export const createResendTransport = (apiKey?: string): Mailer => {
+	if (!apiKey) {
+		throw new Error("RESEND_API_KEY is required when MAILER_TRANSPORT=resend");
+	}
+
+	const resend = new Resend(apiKey);
+
+	return {
+		name: "resend",
+		send: async ({ from, to, subject, text, html, replyTo }) => {
+			let result: Awaited<ReturnType<typeof resend.emails.send>>;
+			try {
+				result = await resend.emails.send({
+					from,
+					to,
+					subject,
+					text,
+					html,
+					replyTo,
+				});
+			} catch (error) {
+				// Network failures never reach Resend's error envelope
+				throw new MailDeliveryError("Resend request failed", true, error);
+			}
+
+			const { data, error } = result;
+			if (error || !data) {
+				throw new MailDeliveryError(
+					error?.message ?? "Resend returned no message id",
+					!error || TRANSIENT_ERRORS.has(error.name),
+					error,
+				);
+			}
+
+			return { id: data.id };
+		},
+	};
+};
@@ -0,0 +1,61 @@
+import nodemailer from "nodemailer";
+import { MailDeliveryError, type Mailer } from "./transport";
+
+type SmtpConfig = {
+	host?: string;
+	port: number;
+	secure: boolean;
+	user?: string;
+	pass?: string;
+};
+
+const TRANSIENT_CODES = new Set([
+	"ECONNECTION",
+	"ETIMEDOUT",
+	"ESOCKET",
+	"EDNS",
+]);
+
+// SMTP 4xx replies are temporary by definition (RFC 5321 §4.2.1)
+const isTransient = (error: unknown) => {
+	const { code, responseCode } = error as {
+		code?: string;
+		responseCode?: number;
+	};
+	return (
+		(code !== undefined && TRANSIENT_CODES.has(code)) ||
+		(responseCode !== undefined && responseCode >= 400 && responseCode < 500)
+	);
+};
+
+export const createSmtpTransport = (config: SmtpConfig): Mailer => {
+	if (!config.host) {
+		throw new Error("SMTP_HOST is required when MAILER_TRANSPORT=smtp");
+	}
+
+	const transporter = nodemailer.createTransport({
+		host: config.host,
+		port: config.port,
+		secure: config.secure,
+		auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+	});
+
+	return {
+		name: "smtp",
+		send: async (message) => {
+			try {
+				const info = await transporter.sendMail(message);
+				return { id: info.messageId };
+			} catch (error) {
+				throw new MailDeliveryError(
+					error instanceof Error ? error.message : "SMTP delivery failed",
+					isTransient(error),
+					error,
+				);
+			}
+		},
+		verify: async () => {
+			await transporter.verify();
+		},
+	};
+};
@@ -0,0 +1,286 @@
+import { formatInTimeZone } from "date-fns-tz";
+import { Env } from "../configs/env.config";
+
+/**
+ * Email Template Engine
+ *
+ * - Every template renders inside a shared HTML layout
+ * - A plain-text alternative is derived from the rendered HTML
+ * - Values interpolated with the `html` tag are escaped unless wrapped in `raw()`
+ * - Dates render in the recipient's timezone
+ */
+
+export type RenderedEmail = {
+	subject: string;
+	text: string;
+	html: string;
+};
+
+export type RenderOptions = {
+	timeZone?: string;
+};
+
+type TemplateHelpers = {
+	formatDate: (date: Date) => string;
+	link: (path: string, params?: Record<string, string>) => string;
+};
+
+type TemplateDefinition<TVariables> = {
+	subject: (vars: TVariables) => string;
+	body: (vars: TVariables, helpers: TemplateHelpers) => SafeHtml;
+};
+
+// ==================== HTML Escaping ====================
+
+class SafeHtml {
+	constructor(readonly value: string) {}
+
+	toString() {
+		return this.value;
+	}
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+	"&": "&amp;",
+	"<": "&lt;",
+	">": "&gt;",
+	'"': "&quot;",
+	"'": "&#39;",
+};
+
+export const escapeHtml = (value: string) =>
+	value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+
+/**
+ * Mark a string as trusted HTML so it is interpolated without escaping
+ */
+export const raw = (value: string) => new SafeHtml(value);
+
+const renderValue = (value: unknown): string => {
+	if (value instanceof SafeHtml) return value.value;
+	if (Array.isArray(value)) return value.map(renderValue).join("");
+	if (value === null || value === undefined || value === false) return "";
+	return escapeHtml(String(value));
+};
+
+export const html = (strings: TemplateStringsArray, ...values: unknown[]) =>
+	new SafeHtml(
+		strings.reduce(
+			(out, str, i) =>
+				out + str + (i < values.length ? renderValue(values[i]) : ""),
+			"",
+		),
+	);
+
+// ==================== Layout & Plain Text ====================
+
+const button = (url: string, label: string) => html`
+	<p>
+		<a href="${url}" style="display: inline-block; padding: 10px 16px; background: #2563eb; color: #ffffff; text-decoration: none; border-radius: 4px;">${label}</a>
+	</p>`;
+
+const layout = (subject: string, body: SafeHtml) => html`<!doctype html>
+<html>
+	<head>
+		<meta charset="utf-8" />
+		<title>${subject}</title>
+	</head>
+	<body style="margin: 0; padding: 24px; background: #f3f4f6; font-family: Arial, sans-serif; color: #1f2937;">
+		<div style="max-width: 560px; margin: 0 auto; padding: 24px; background: #ffffff; border-radius: 8px;">
+			<h2 style="margin-top: 0;">${subject}</h2>
+			${body}
+		</div>
+		<p style="text-align: center; font-size: 12px; color: #6b7280;">${Env.APP_NAME}</p>
+	</body>
+</html>`;
+
+const HTML_ENTITIES: Record<string, string> = {
+	"&amp;": "&",
+	"&lt;": "<",
+	"&gt;": ">",
+	"&quot;": '"',
+	"&#39;": "'",
+	"&nbsp;": " ",
+};
+
+export const htmlToText = (markup: string) =>
+	markup
+		.replace(/<a\s[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gis, "$2: $1")
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(/<\/(p|h[1-6]|li|tr|div)>/gi, "\n")
+		.replace(/<li[^>]*>/gi, "- ")
+		.replace(/<[^>]+>/g, "")
+		.replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (entity) => HTML_ENTITIES[entity])
+		.split("\n")
+		.map((line) => line.trim())
+		.join("\n")
+		.replace(/\n{3,}/g, "\n\n")
+		.replace(/\n\n(?=- )/g, "\n")
+		.trim();
+
+// ==================== Templates ====================
+
+const IGNORE_NOTICE = html`<p style="font-size: 12px; color: #6b7280;">If you did not request this, you can safely ignore this email.</p>`;
+
+const SECURITY_NOTICE = html`<p style="font-size: 12px; color: #6b7280;">If this wasn't you, reset your password immediately and review your active sessions.</p>`;
+
+export const templates = {
+	verifyEmail: {
+		subject: () => "Confirm your email address",
+		body: ({ code, expiresAt }, { formatDate, link }) => html`
+			<p>Thanks for signing up. Please confirm your email address to finish setting up your account.</p>
+			${button(link("/confirm-account", { code }), "Confirm email")}
+			<p>This link expires on ${formatDate(expiresAt)}.</p>
+			${IGNORE_NOTICE}`,
+	} satisfies TemplateDefinition<{ code: string; expiresAt: Date }>,
+
+	passwordReset: {
+		subject: () => "Reset your password",
+		body: ({ code, expiresAt }, { formatDate, link }) => html`
+			<p>We received a request to reset your password.</p>
+			${button(link("/reset-password", { code }), "Reset password")}
+			<p>This link expires on ${formatDate(expiresAt)}.</p>
+			${IGNORE_NOTICE}`,
+	} satisfies TemplateDefinition<{ code: string; expiresAt: Date }>,
+
+	mfaEnabled: {
+		subject: () => "Two-factor authentication enabled",
+		body: ({ name, enabledAt }, { formatDate }) => html`
+			<p>Hi ${name},</p>
+			<p>Two-factor authentication was turned on for your account on ${formatDate(enabledAt)}.</p>
+			<p>Keep your backup codes somewhere safe. Each code can be used once if you lose access to your authenticator app.</p>
+			${SECURITY_NOTICE}`,
+	} satisfies TemplateDefinition<{ name: string; enabledAt: Date }>,
+
+	accountLocked: {
+		subject: () => "Your account has been temporarily locked",
+		body: ({ name, unlockAt }, { formatDate }) => html`
+			<p>Hi ${name},</p>
+			<p>We locked your account after several failed sign-in attempts. You can try again after ${formatDate(unlockAt)}.</p>
+			<p>If these attempts weren't you, consider resetting your password once the lock expires.</p>`,
+	} satisfies TemplateDefinition<{ name: string; unlockAt: Date }>,
+
+	newDeviceLogin: {
+		subject: () => "New sign-in to your account",
+		body: (
+			{ name, browser, os, ipAddress, loggedInAt },
+			{ formatDate },
+		) => html`
+			<p>Hi ${name},</p>
+			<p>Your account was just signed in to from a device we haven't seen before:</p>
+			<ul>
+				<li>Device: ${browser} on ${os}</li>
+				${ipAddress && html`<li>IP address: ${ipAddress}</li>`}
+				<li>Time: ${formatDate(loggedInAt)}</li>
+			</ul>
+			${SECURITY_NOTICE}`,
+	} satisfies TemplateDefinition<{
+		name: string;
+		browser: string;
+		os: string;
+		ipAddress?: string;
+		loggedInAt: Date;
+	}>,
+
+	passwordChanged: {
+		subject: () => "Your password was changed",
+		body: ({ name, changedAt }, { formatDate }) => html`
+			<p>Hi ${name},</p>
+			<p>The password for your account was changed on ${formatDate(changedAt)}. All other sessions have been signed out.</p>
+			${SECURITY_NOTICE}`,
+	} satisfies TemplateDefinition<{ name: string; changedAt: Date }>,
+
+	confirmEmailChange: {
+		subject: () => "Confirm your new email address",
+		body: ({ name, code, expiresAt }, { formatDate, link }) => html`
+			<p>Hi ${name},</p>
+			<p>Confirm this address to start using it to sign in to your account.</p>
+			${button(link("/confirm-email-change", { code }), "Confirm new email")}
+			<p>This link expires on ${formatDate(expiresAt)}.</p>
+			${IGNORE_NOTICE}`,
+	} satisfies TemplateDefinition<{
+		name: string;
+		code: string;
+		expiresAt: Date;
+	}>,
+
+	emailChanged: {
+		subject: () => "Your email address was changed",
+		body: ({ name, newEmail, code, expiresAt }, { formatDate, link }) => html`
+			<p>Hi ${name},</p>
+			<p>The email address on your account was changed to ${newEmail}. You will no longer receive account emails here.</p>
+			<p>If you didn't make this change, undo it now. This signs out every session on your account.</p>
+			${button(link("/revert-email-change", { code }), "Undo email change")}
+			<p>This link expires on ${formatDate(expiresAt)}.</p>`,
+	} satisfies TemplateDefinition<{
+		name: string;
+		newEmail: string;
+		code: string;
+		expiresAt: Date;
+	}>,
+
+	accountDeletionScheduled: {
+		subject: () => "Your account is scheduled for deletion",
+		body: ({ name, scheduledFor }, { formatDate }) => html`
+			<p>Hi ${name},</p>
+			<p>Your account and the personal data associated with it will be deleted on ${formatDate(scheduledFor)}. You have been signed out everywhere.</p>
+			<p>Changed your mind? Log in before then to cancel the deletion.</p>
+			${SECURITY_NOTICE}`,
+	} satisfies TemplateDefinition<{ name: string; scheduledFor: Date }>,
+
+	accountDeleted: {
+		subject: () => "Your account has been deleted",
+		body: ({ name, deletedAt }, { formatDate }) => html`
+			<p>Hi ${name},</p>
+			<p>Your account and the personal data associated with it were deleted on ${formatDate(deletedAt)}.</p>
+			<p>We're sorry to see you go. You're welcome to create a new account at any time.</p>`,
+	} satisfies TemplateDefinition<{ name: string; deletedAt: Date }>,
+};
+
+export type TemplateName = keyof typeof templates;
+
+export type TemplateVariables<TName extends TemplateName> = Parameters<
+	(typeof templates)[TName]["body"]
+>[0];
+
+const resolveTimeZone = (timeZone?: string) => {
+	if (!timeZone) return "UTC";
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone });
+		return timeZone;
+	} catch {
+		return "UTC";
+	}
+};
+
+export const renderTemplate = <TName extends TemplateName>(
+	name: TName,
+	vars: TemplateVariables<TName>,
+	options: RenderOptions = {},
+): RenderedEmail => {
+	const timeZone = resolveTimeZone(options.timeZone);
+	const template = templates[name] as TemplateDefinition<
+		TemplateVariables<TName>
+	>;
+
+	const helpers: TemplateHelpers = {
+		formatDate: (date) =>
+			formatInTimeZone(date, timeZone, "MMMM d, yyyy 'at' h:mm a zzz"),
+		link: (path, params) => {
+			const url = new URL(path, Env.FRONTEND_ORIGIN[0]);
+			for (const [key, value] of Object.entries(params ?? {})) {
+				url.searchParams.set(key, value);
+			}
+			return url.toString();
+		},
+	};
+
+	const subject = template.subject(vars);
+	const body = template.body(vars, helpers);
+
+	return {
+		subject,
+		text: htmlToText(body.value),
+		html: layout(subject, body).value,
+	};
+};
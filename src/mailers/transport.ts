@@ -0,0 +1,34 @@
+export type MailMessage = {
+	from: string;
+	to: string[];
+	subject: string;
+	text: string;
+	html: string;
+	replyTo?: string;
+};
+
+export type MailResult = {
+	id: string;
+};
+
+/**
+ * A mail transport delivers one fully rendered message
+ * Implementations throw MailDeliveryError so the mailer knows whether to retry
+ */
+export interface Mailer {
+	readonly name: string;
+	send(message: MailMessage): Promise<MailResult>;
+	// Cheap connectivity check for health probes; throws when unusable
+	verify?(): Promise<void>;
+}
+
+export class MailDeliveryError extends Error {
+	constructor(
+		message: string,
+		public readonly transient: boolean,
+		public readonly cause?: unknown,
+	) {
+		super(message);
+		this.name = this.constructor.name;
+	}
+}
@@ -0,0 +1,36 @@
+import type { NextFunction, Request, Response } from "express";
+import { logger } from "../common/utils/logger";
+
+/**
+ * HTTP Access Log Middleware
+ * Logs one line per request once the response has been sent. 5xx responses
+ * log at `error`, 4xx at `warn` and everything else at `http`.
+ */
+export const accessLog = (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): void => {
+	const startedAt = process.hrtime.bigint();
+
+	res.on("finish", () => {
+		const durationMs = Number(process.hrtime.bigint() - startedAt) / 1_000_000;
+		const level =
+			res.statusCode >= 500 ? "error" : res.statusCode >= 400 ? "warn" : "http";
+
+		logger.log(level, `${req.method} ${req.originalUrl} ${res.statusCode}`, {
+			// The finish event can fire outside the request's async context
+			requestId: req.requestId,
+			method: req.method,
+			path: req.originalUrl,
+			statusCode: res.statusCode,
+			durationMs: Math.round(durationMs * 100) / 100,
+			contentLength: res.getHeader("content-length"),
+			ipAddress: req.ip,
+			userAgent: req.get("user-agent"),
+			userId: req.user?.id,
+		});
+	});
+
+	next();
+};
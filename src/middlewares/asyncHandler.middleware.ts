@@ -1,17 +1,69 @@
 import type { NextFunction, Request, Response } from "express";
+import type { ParamsDictionary } from "express-serve-static-core";
+import { ErrorCodeEnum } from "../common/enums/error-code.enum";
+import type { AuthenticatedRequest } from "../common/interface/interface";
+import { AuthenticationException } from "../common/utils/app-error";
 
-type AsyncController = (
-	req: Request,
+// Widest request shape a controller may narrow via ValidatedRequest
+type AnyRequest = Request<ParamsDictionary, unknown, unknown, unknown>;
+
+type AnyAuthenticatedRequest = AuthenticatedRequest<
+	ParamsDictionary,
+	unknown,
+	unknown,
+	unknown
+>;
+
+type AsyncController<TRequest extends AnyRequest = Request> = (
+	req: TRequest,
 	res: Response,
 	next: NextFunction,
 ) => Promise<void>;
 
+// Adds an impossible argument when the controller requires `req.user`
+type RequiresNoUser<TRequest extends AnyRequest> =
+	undefined extends TRequest["user"] ? [] : [never];
+
+/**
+ * Forward async errors to the error handler
+ * Body, params and query may be narrowed to what `validate` produced. Controllers
+ * that need `req.user` do not compile here; use `authenticatedHandler`.
+ */
 export const asyncHandler =
-	(controller: AsyncController) =>
+	<TRequest extends AnyRequest = Request>(
+		controller: AsyncController<TRequest>,
+		..._requiresNoUser: RequiresNoUser<TRequest>
+	) =>
 	async (req: Request, res: Response, next: NextFunction): Promise<void> => {
 		try {
-			await controller(req, res, next);
+			await controller(req as TRequest, res, next);
 		} catch (error) {
 			next(error);
 		}
 	};
+
+/**
+ * `asyncHandler` for controllers that declare `AuthenticatedRequest`
+ * Checks at runtime that `authenticate` ran, so `req.user` and `req.sessionId`
+ * really are set when the controller sees them.
+ */
+export const authenticatedHandler = <
+	TRequest extends AnyAuthenticatedRequest = AuthenticatedRequest,
+>(
+	controller: AsyncController<TRequest>,
+) =>
+	asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+		const { user, sessionId } = req;
+		if (!user || !sessionId) {
+			throw new AuthenticationException(
+				"Authentication required. Please log in",
+				ErrorCodeEnum.AUTH_TOKEN_NOT_FOUND,
+			);
+		}
+
+		await controller(
+			Object.assign(req, { user, sessionId }) as TRequest,
+			res,
+			next,
+		);
+	});
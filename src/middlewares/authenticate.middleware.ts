@@ -0,0 +1,74 @@
+import type { NextFunction, Request, Response } from "express";
+import passport from "passport";
+import { ErrorCodeEnum } from "../common/enums/error-code.enum";
+import { AuthenticationException } from "../common/utils/app-error";
+
+/**
+ * Translate passport-jwt's failure info into our error envelope
+ */
+const toAuthenticationError = (info: unknown) => {
+	if (info instanceof Error && info.name === "TokenExpiredError") {
+		return new AuthenticationException(
+			"Your session has expired. Please log in again",
+			ErrorCodeEnum.AUTH_TOKEN_EXPIRED,
+		);
+	}
+
+	if (info instanceof Error && info.message === "No auth token") {
+		return new AuthenticationException(
+			"Authentication required. Please log in",
+			ErrorCodeEnum.AUTH_TOKEN_NOT_FOUND,
+		);
+	}
+
+	return new AuthenticationException(
+		"Invalid authentication token",
+		ErrorCodeEnum.AUTH_INVALID_TOKEN,
+	);
+};
+
+/**
+ * Authentication Middleware
+ * Requires a valid access token; populates `req.user` and `req.sessionId`
+ */
+export const authenticate = (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): void => {
+	passport.authenticate(
+		"jwt",
+		{ session: false },
+		(err: unknown, user: Express.User | false, info: unknown) => {
+			if (err) return next(err);
+			if (!user) return next(toAuthenticationError(info));
+
+			req.user = user;
+			next();
+		},
+	)(req, res, next);
+};
+
+/**
+ * Optional Authentication Middleware
+ * Populates `req.user` when a valid access token is present; otherwise the
+ * request continues anonymously
+ */
+export const optionalAuthenticate = (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): void => {
+	passport.authenticate(
+		"jwt",
+		{ session: false },
+		(_err: unknown, user: Express.User | false) => {
+			if (user) {
+				req.user = user;
+			} else {
+				req.sessionId = undefined;
+			}
+			next();
+		},
+	)(req, res, next);
+};
@@ -0,0 +1,68 @@
+import type { NextFunction, Request, Response } from "express";
+import { ErrorCodeEnum } from "../common/enums/error-code.enum";
+import type { PermissionType, RoleType } from "../common/enums/role.enum";
+import { AuthorizationException } from "../common/utils/app-error";
+import { getPermissions } from "../configs/roles.config";
+
+/**
+ * Authorization Middleware
+ * Mount after `authenticate`. Denials return 403 with
+ * AUTH_INSUFFICIENT_PERMISSIONS and details naming what was missing.
+ */
+
+export const requireRole =
+	(...roles: RoleType[]) =>
+	(req: Request, _res: Response, next: NextFunction): void => {
+		const userRoles = req.user?.roles ?? [];
+
+		if (!roles.some((role) => userRoles.includes(role))) {
+			next(
+				new AuthorizationException(
+					"You do not have the role required to perform this action",
+					ErrorCodeEnum.AUTH_INSUFFICIENT_PERMISSIONS,
+					{ requiredRoles: roles },
+				),
+			);
+			return;
+		}
+
+		next();
+	};
+
+export const requirePermission =
+	(...permissions: PermissionType[]) =>
+	(req: Request, _res: Response, next: NextFunction): void => {
+		const granted = getPermissions(req.user?.roles ?? []);
+		const missingPermissions = permissions.filter((p) => !granted.has(p));
+
+		if (missingPermissions.length) {
+			next(
+				new AuthorizationException(
+					`Missing permission: ${missingPermissions.join(", ")}`,
+					ErrorCodeEnum.AUTH_INSUFFICIENT_PERMISSIONS,
+					{ missingPermissions },
+				),
+			);
+			return;
+		}
+
+		next();
+	};
+
+/**
+ * Allow the request when the route param names the current user,
+ * otherwise require the given permission
+ *
+ * @example
+ * router.get("/:userId/sessions", authenticate, requireSelfOrPermission("userId", "sessions:read"), ...)
+ */
+export const requireSelfOrPermission =
+	(param: string, permission: PermissionType) =>
+	(req: Request, res: Response, next: NextFunction): void => {
+		if (req.user && req.params[param] === req.user.id) {
+			next();
+			return;
+		}
+
+		requirePermission(permission)(req, res, next);
+	};
@@ -0,0 +1,28 @@
+import type { NextFunction, Request, Response } from "express";
+
+type DeprecationOptions = {
+	since?: Date;
+	sunset?: Date;
+	successor?: string;
+};
+
+/**
+ * Deprecation Headers Middleware
+ * Marks every response of an old API version (RFC 9745 `Deprecation`,
+ * RFC 8594 `Sunset`) and points clients at the successor version
+ */
+export const deprecation =
+	({ since, sunset, successor }: DeprecationOptions) =>
+	(_req: Request, res: Response, next: NextFunction): void => {
+		res.setHeader(
+			"Deprecation",
+			since ? `@${Math.floor(since.getTime() / 1000)}` : "true",
+		);
+		if (sunset) {
+			res.setHeader("Sunset", sunset.toUTCString());
+		}
+		if (successor) {
+			res.append("Link", `<${successor}>; rel="successor-version"`);
+		}
+		next();
+	};
@@ -1,26 +1,20 @@
 import type { ErrorRequestHandler, Request, Response } from "express";
 import mongoose from "mongoose";
-import { ErrorCodeEnum } from "../common/enums/error-code.enum";
+import { ZodError } from "zod";
+import {
+	ErrorCodeEnum,
+	type ErrorCodeEnumType,
+} from "../common/enums/error-code.enum";
 import { AppError } from "../common/utils/app-error";
+import { sendErrorResponse } from "../common/utils/error-response";
+import { logger } from "../common/utils/logger";
+import { formatZodError } from "../common/validators/validator";
 import { Env } from "../configs/env.config";
 import { HTTPSTATUS, type HttpStatusCodeType } from "../configs/http.config";
 
-/**
- * Standardized error response format
- */
-interface ErrorResponse {
-	errorName: string;
-	errorCode: string;
-	httpStatus: number;
-	message: string;
-	details?: unknown;
-	timestamp?: string;
-	path?: string;
-}
-
 /**
  * Production-level error handler middleware
- * Handles all types of errors and returns consistent JSON responses
+ * Handles all types of errors and returns consistent JSON or problem+json responses
  */
 
 export const errorHandler: ErrorRequestHandler = (
@@ -31,7 +25,7 @@ export const errorHandler: ErrorRequestHandler = (
 ): void => {
 	let error = err as AppError | Error;
 	let statusCode: HttpStatusCodeType = HTTPSTATUS.INTERNAL_SERVER_ERROR;
-	let errorCode: string = ErrorCodeEnum.SRV_500;
+	let errorCode: ErrorCodeEnumType = ErrorCodeEnum.SRV_500;
 	let message = "An unexpected error occurred";
 	let details: unknown;
 
@@ -44,6 +38,14 @@ export const errorHandler: ErrorRequestHandler = (
 		details = err.details;
 	}
 
+	// Handle Zod errors thrown outside the validate middleware (e.g. in services)
+	else if (err instanceof ZodError) {
+		statusCode = HTTPSTATUS.BAD_REQUEST;
+		errorCode = ErrorCodeEnum.VAL_400;
+		message = "Validation failed. Please check your input";
+		details = formatZodError(err);
+	}
+
 	// Handle Mongoose validation errors
 	else if (err instanceof mongoose.Error.ValidationError) {
 		statusCode = HTTPSTATUS.BAD_REQUEST;
@@ -139,29 +141,33 @@ export const errorHandler: ErrorRequestHandler = (
 		message = err.message || message;
 	}
 
-	// Prepare error response
-	const errorResponse: ErrorResponse = {
+	// Operational errors are expected and already show up in the access log.
+	// Client mistakes mapped to 4xx above (bad JSON, invalid ids) are only
+	// warnings, so clients cannot flood the error log.
+	if (!(err instanceof AppError && err.isOperational)) {
+		const isServerError = statusCode >= HTTPSTATUS.INTERNAL_SERVER_ERROR;
+
+		logger.log(
+			isServerError ? "error" : "warn",
+			`${isServerError ? "Unhandled error" : "Client error"}: ${message}`,
+			{
+				requestId: req.requestId,
+				errorName: error.name,
+				errorCode,
+				method: req.method,
+				path: req.originalUrl,
+				stack: isServerError ? error.stack : undefined,
+			},
+		);
+	}
+
+	sendErrorResponse(req, res, {
 		errorName: error.name || "Error",
+		statusCode,
 		errorCode,
-		httpStatus: statusCode,
 		message,
-		timestamp: new Date().toISOString(),
-		path: req.originalUrl,
-	};
-
-	// Include details only in development or for specific error types
-	if (details !== undefined) {
-		errorResponse.details = details;
-	}
-
-	// Include stack trace only in development
-	if (Env.NODE_ENV === "development" && error instanceof Error && error.stack) {
-		errorResponse.details = {
-			...(errorResponse.details as Record<string, unknown>),
-			stack: error.stack,
-		};
-	}
-
-	// Send error response
-	res.status(statusCode).json(errorResponse);
+		details,
+		// Include stack trace only in development
+		stack: Env.NODE_ENV === "development" ? error.stack : undefined,
+	});
 };
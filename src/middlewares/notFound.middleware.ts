@@ -1,5 +1,6 @@
 import type { NextFunction, Request, Response } from "express";
 import { ErrorCodeEnum } from "../common/enums/error-code.enum";
+import { sendErrorResponse } from "../common/utils/error-response";
 import { HTTPSTATUS } from "../configs/http.config";
 
 /**
@@ -11,12 +12,11 @@ export const notFoundHandler = (
 	res: Response,
 	_next: NextFunction,
 ): void => {
-	res.status(HTTPSTATUS.NOT_FOUND).json({
+	sendErrorResponse(req, res, {
 		errorName: "NotFoundError",
+		statusCode: HTTPSTATUS.NOT_FOUND,
 		errorCode: ErrorCodeEnum.USR_404,
-		httpStatus: HTTPSTATUS.NOT_FOUND,
 		message: `The requested endpoint ${req.method} ${req.originalUrl} was not found`,
-		timestamp: new Date().toISOString(),
-		path: req.originalUrl,
+		messageParams: { method: req.method, path: req.originalUrl },
 	});
 };
@@ -0,0 +1,66 @@
+import type { NextFunction, Request, Response } from "express";
+import rateLimiter, { type RateLimitInfo } from "express-rate-limit";
+import { ErrorCodeEnum } from "../common/enums/error-code.enum";
+import { TooManyRequestsException } from "../common/utils/app-error";
+import { hashToken } from "../common/utils/crypto";
+import { createMongoRateLimitStore } from "../common/utils/rate-limit-store";
+import {
+	type RateLimitKeyType,
+	RateLimitPolicies,
+	type RateLimitPolicy,
+	type RateLimitPolicyName,
+} from "../configs/rate-limit.config";
+
+const keyGenerators: Record<RateLimitKeyType, (req: Request) => string> = {
+	ip: (req) => `ip:${req.ip}`,
+	user: (req) => (req.user ? `user:${req.user.id}` : `ip:${req.ip}`),
+	apiKey: (req) => {
+		const apiKey = req.header("x-api-key");
+		// Never persist raw API keys
+		return apiKey ? `key:${hashToken(apiKey)}` : `ip:${req.ip}`;
+	},
+};
+
+// The route pattern (`/api/v1/auth/login`), not the URL, so params do not split buckets
+const routeOf = (req: Request) =>
+	`${req.baseUrl}${typeof req.route?.path === "string" ? req.route.path : ""}`;
+
+/**
+ * Rate Limit Middleware
+ * Applies a named policy from `rate-limit.config.ts`. Responses carry
+ * `RateLimit-*` headers; rejections also carry `Retry-After` and go through
+ * the error handler as RATE_LIMIT_EXCEEDED.
+ *
+ * @example
+ * router.post("/login", rateLimit("authSensitive"), ...)
+ */
+export const rateLimit = (policyName: RateLimitPolicyName) => {
+	const policy: RateLimitPolicy = RateLimitPolicies[policyName];
+
+	return rateLimiter({
+		windowMs: policy.windowMs,
+		max: policy.max,
+		standardHeaders: true,
+		legacyHeaders: false,
+		store: createMongoRateLimitStore(`rl:${policyName}`),
+		keyGenerator: (req: Request) => {
+			const key = keyGenerators[policy.keyBy](req);
+			return policy.perRoute ? `${routeOf(req)}|${key}` : key;
+		},
+		handler: (req: Request, _res: Response, next: NextFunction) => {
+			const info = (req as Request & { rateLimit?: RateLimitInfo }).rateLimit;
+
+			next(
+				new TooManyRequestsException(
+					"Too many requests. Please try again later",
+					ErrorCodeEnum.RATE_LIMIT_EXCEEDED,
+					{
+						policy: policyName,
+						limit: info?.limit ?? policy.max,
+						resetAt: info?.resetTime?.toISOString(),
+					},
+				),
+			);
+		},
+	});
+};
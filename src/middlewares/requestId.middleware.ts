@@ -0,0 +1,33 @@
+import { randomUUID } from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+import { runWithRequestContext } from "../common/utils/request-context";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Accept upstream IDs (load balancer, gateway) only when they look sane
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Request ID Middleware
+ * Reuses an incoming `X-Request-Id` or generates one, echoes it on the
+ * response and makes it, along with the client IP and user agent, available
+ * to the logger and audit log for the rest of the request.
+ * Mount before everything else.
+ */
+export const requestId = (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): void => {
+	const incoming = req.header(REQUEST_ID_HEADER);
+	const id =
+		incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+
+	req.requestId = id;
+	res.setHeader(REQUEST_ID_HEADER, id);
+
+	runWithRequestContext(
+		{ requestId: id, ipAddress: req.ip, userAgent: req.get("user-agent") },
+		() => next(),
+	);
+};
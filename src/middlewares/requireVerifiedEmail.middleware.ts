@@ -0,0 +1,25 @@
+import type { NextFunction, Request, Response } from "express";
+import { ErrorCodeEnum } from "../common/enums/error-code.enum";
+import { ForbiddenException } from "../common/utils/app-error";
+
+/**
+ * Email Verification Guard
+ * Mount after `authenticate` on any route that unverified users must not reach
+ */
+export const requireVerifiedEmail = (
+	req: Request,
+	_res: Response,
+	next: NextFunction,
+): void => {
+	if (!req.user?.isEmailVerified) {
+		next(
+			new ForbiddenException(
+				"Please verify your email address to continue",
+				ErrorCodeEnum.AUTH_403,
+			),
+		);
+		return;
+	}
+
+	next();
+};
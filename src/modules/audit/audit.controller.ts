@@ -0,0 +1,34 @@
+import type { Response } from "express";
+import type { AuthenticatedRequest } from "../../common/interface/interface";
+import { parseListQuery } from "../../common/utils/pagination";
+import {
+	adminAuditLogListSpec,
+	auditLogListSpec,
+} from "../../common/validators/audit.validator";
+import { HTTPSTATUS } from "../../configs/http.config";
+import { auditService } from "./audit.service";
+
+export const auditController = {
+	getMine: async (req: AuthenticatedRequest, res: Response) => {
+		const page = await auditService.list(
+			parseListQuery(req.query, auditLogListSpec),
+			req.user.id,
+		);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Security history retrieved successfully",
+			...page,
+		});
+	},
+
+	getAll: async (req: AuthenticatedRequest, res: Response) => {
+		const page = await auditService.list(
+			parseListQuery(req.query, adminAuditLogListSpec),
+		);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Audit logs retrieved successfully",
+			...page,
+		});
+	},
+};
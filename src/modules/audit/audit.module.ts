@@ -0,0 +1,16 @@
+import "./audit.openapi";
+import { defineModule } from "../../common/utils/module-loader";
+import { auditRoutes } from "./audit.route";
+import { auditService } from "./audit.service";
+
+export const auditModule = defineModule({
+	name: "audit-logs",
+	router: auditRoutes,
+	personalData: {
+		export: auditService.exportUserEvents,
+		erase: auditService.anonymiseUserEvents,
+	},
+});
+
+export { auditRoutes } from "./audit.route";
+export { auditService } from "./audit.service";
@@ -0,0 +1,50 @@
+import { ErrorCodeEnum } from "../../common/enums/error-code.enum";
+import { openApiRegistry } from "../../common/openapi/registry";
+import {
+	auditLogResponseSchema,
+	listQuerySchema,
+	pageSchema,
+} from "../../common/openapi/schemas";
+import {
+	adminAuditLogListSpec,
+	auditLogListSpec,
+} from "../../common/validators/audit.validator";
+import { apiPath } from "../../configs/api.config";
+
+openApiRegistry.registerRoutes(
+	{ basePath: apiPath("audit-logs"), tag: "Audit Logs" },
+	[
+		{
+			method: "get",
+			path: "/me",
+			operationId: "listMyAuditLogs",
+			summary: "Security history of the current user, newest first",
+			description: "Events the user performed or that affected their account.",
+			auth: true,
+			request: { query: listQuerySchema(auditLogListSpec) },
+			responses: {
+				200: {
+					description: "One page of events",
+					schema: pageSchema(auditLogResponseSchema),
+				},
+			},
+		},
+		{
+			method: "get",
+			path: "/",
+			operationId: "listAuditLogs",
+			summary: "Search the audit log, newest first",
+			description:
+				"Requires the `audit:read` permission. `filter[userId]` matches events the user performed or was the target of.",
+			auth: true,
+			request: { query: listQuerySchema(adminAuditLogListSpec) },
+			responses: {
+				200: {
+					description: "One page of events",
+					schema: pageSchema(auditLogResponseSchema),
+				},
+			},
+			errors: { 403: [ErrorCodeEnum.AUTH_INSUFFICIENT_PERMISSIONS] },
+		},
+	],
+);
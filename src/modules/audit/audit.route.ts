@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { PermissionEnum } from "../../common/enums/role.enum";
+import { authenticatedHandler } from "../../middlewares/asyncHandler.middleware";
+import { authenticate } from "../../middlewares/authenticate.middleware";
+import { requirePermission } from "../../middlewares/authorize.middleware";
+import { rateLimit } from "../../middlewares/rateLimit.middleware";
+import { auditController } from "./audit.controller";
+
+const router = Router();
+
+router.use(authenticate, rateLimit("perUser"));
+
+router.get("/me", authenticatedHandler(auditController.getMine));
+router.get(
+	"/",
+	requirePermission(PermissionEnum.AUDIT_READ),
+	authenticatedHandler(auditController.getAll),
+);
+
+export { router as auditRoutes };
@@ -0,0 +1,111 @@
+import { type FilterQuery, Types } from "mongoose";
+import {
+	type AuditEventEnumType,
+	AuditOutcomeEnum,
+	type AuditOutcomeEnumType,
+} from "../../common/enums/audit-event.enum";
+import { fromNow } from "../../common/utils/date-time";
+import { logger, redact } from "../../common/utils/logger";
+import {
+	type ListQuery,
+	mapPage,
+	paginate,
+} from "../../common/utils/pagination";
+import { getRequestContext } from "../../common/utils/request-context";
+import { Env } from "../../configs/env.config";
+import {
+	type AuditLogDocument,
+	AuditLogModel,
+} from "../../database/models/model";
+
+type UserRef = Types.ObjectId | string;
+
+export type AuditEntry = {
+	event: AuditEventEnumType;
+	outcome?: AuditOutcomeEnumType;
+	// Omit for anonymous requests such as a login with an unknown email
+	actorId?: UserRef;
+	// Defaults to the actor for self-service actions
+	targetId?: UserRef;
+	details?: Record<string, unknown>;
+};
+
+const toObjectId = (id?: UserRef) =>
+	id && Types.ObjectId.isValid(id) ? new Types.ObjectId(id) : undefined;
+
+// Events the user performed or was the target of
+const involving = (userId: UserRef): FilterQuery<AuditLogDocument> => ({
+	$or: [{ actorId: userId }, { targetId: userId }],
+});
+
+export const auditService = {
+	/**
+	 * Append an event, filling in the IP, user agent and request ID of the
+	 * current request. Never throws and never delays the caller: a failed
+	 * write is logged and dropped.
+	 */
+	record: ({
+		event,
+		outcome = AuditOutcomeEnum.SUCCESS,
+		actorId,
+		targetId = actorId,
+		details,
+	}: AuditEntry) => {
+		const context = getRequestContext();
+
+		AuditLogModel.create({
+			event,
+			outcome,
+			actorId: toObjectId(actorId),
+			targetId: toObjectId(targetId),
+			ipAddress: context?.ipAddress,
+			userAgent: context?.userAgent,
+			requestId: context?.requestId,
+			details: details && redact(details),
+			expiresAt: fromNow(Env.AUDIT_LOG.RETENTION),
+		}).catch((error) => {
+			logger.error("Failed to write audit log", { event, outcome, error });
+		});
+	},
+
+	/**
+	 * One page of events, optionally limited to one user's
+	 */
+	list: async (query: ListQuery, userId?: string) => {
+		const page = await paginate(
+			AuditLogModel,
+			query,
+			userId ? involving(userId) : {},
+		);
+		return mapPage(page, (record) => record.toJSON());
+	},
+
+	exportUserEvents: async (userId: Types.ObjectId) => {
+		const records = await AuditLogModel.find(involving(userId)).sort({
+			createdAt: -1,
+		});
+		return records.map((record) => record.toJSON());
+	},
+
+	/**
+	 * Keep the security trail but drop everything that identifies the user
+	 */
+	anonymiseUserEvents: async (userId: Types.ObjectId) => {
+		const identifying = {
+			ipAddress: 1,
+			userAgent: 1,
+			details: 1,
+		};
+
+		await Promise.all([
+			AuditLogModel.updateMany(
+				{ targetId: userId },
+				{ $unset: { targetId: 1, ...identifying } },
+			),
+			AuditLogModel.updateMany(
+				{ actorId: userId },
+				{ $unset: { actorId: 1, ...identifying } },
+			),
+		]);
+	},
+};
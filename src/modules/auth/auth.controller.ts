@@ -0,0 +1,138 @@
+import type { Request, Response } from "express";
+import { ErrorCodeEnum } from "../../common/enums/error-code.enum";
+import type { AuthenticatedRequest } from "../../common/interface/interface";
+import { serializeUser } from "../../common/serializers/user.serializer";
+import { AuthenticationException } from "../../common/utils/app-error";
+import {
+	clearAuthenticationCookies,
+	REFRESH_TOKEN_COOKIE,
+	setAuthenticationCookies,
+} from "../../common/utils/cookie";
+import type {
+	forgotPasswordSchema,
+	loginSchema,
+	registerSchema,
+	resetPasswordSchema,
+	verifyEmailSchema,
+} from "../../common/validators/auth.validator";
+import type { ValidatedRequest } from "../../common/validators/validator";
+import { HTTPSTATUS } from "../../configs/http.config";
+import { authService } from "./auth.service";
+
+export const authController = {
+	register: async (
+		req: ValidatedRequest<{ body: typeof registerSchema }>,
+		res: Response,
+	) => {
+		const { user } = await authService.register(req.body);
+
+		res.status(HTTPSTATUS.CREATED).json({
+			message: "User registered successfully",
+			user: serializeUser(user),
+		});
+	},
+
+	login: async (
+		req: ValidatedRequest<{ body: typeof loginSchema }>,
+		res: Response,
+	) => {
+		const result = await authService.login({
+			...req.body,
+			userAgent: req.headers["user-agent"],
+			ipAddress: req.ip,
+		});
+
+		if (result.mfaRequired) {
+			res.status(HTTPSTATUS.OK).json({
+				message: "Verify your authenticator code to complete login",
+				mfaRequired: true,
+				mfaToken: result.mfaToken,
+			});
+			return;
+		}
+
+		const { user, accessToken, refreshToken } = result;
+		setAuthenticationCookies({ res, accessToken, refreshToken })
+			.status(HTTPSTATUS.OK)
+			.json({
+				message: "User logged in successfully",
+				mfaRequired: false,
+				user: serializeUser(user),
+			});
+	},
+
+	refreshToken: async (req: Request, res: Response) => {
+		const token = req.cookies?.[REFRESH_TOKEN_COOKIE] as string | undefined;
+		if (!token) {
+			throw new AuthenticationException(
+				"Missing refresh token",
+				ErrorCodeEnum.AUTH_TOKEN_NOT_FOUND,
+			);
+		}
+
+		const { accessToken, refreshToken } = await authService.refreshToken(token);
+
+		setAuthenticationCookies({ res, accessToken, refreshToken })
+			.status(HTTPSTATUS.OK)
+			.json({ message: "Access token refreshed successfully" });
+	},
+
+	logout: async (req: Request, res: Response) => {
+		await authService.logout(req.cookies?.[REFRESH_TOKEN_COOKIE]);
+
+		clearAuthenticationCookies(res)
+			.status(HTTPSTATUS.OK)
+			.json({ message: "User logged out successfully" });
+	},
+
+	logoutAll: async (req: Request, res: Response) => {
+		await authService.logoutAll(req.cookies?.[REFRESH_TOKEN_COOKIE]);
+
+		clearAuthenticationCookies(res)
+			.status(HTTPSTATUS.OK)
+			.json({ message: "Logged out from all devices successfully" });
+	},
+
+	verifyEmail: async (
+		req: ValidatedRequest<{ body: typeof verifyEmailSchema }>,
+		res: Response,
+	) => {
+		const { user } = await authService.verifyEmail(req.body.code);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Email verified successfully",
+			user: serializeUser(user),
+		});
+	},
+
+	resendVerificationEmail: async (req: AuthenticatedRequest, res: Response) => {
+		await authService.resendVerificationEmail(req.user.id);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Verification email sent",
+		});
+	},
+
+	forgotPassword: async (
+		req: ValidatedRequest<{ body: typeof forgotPasswordSchema }>,
+		res: Response,
+	) => {
+		await authService.forgotPassword(req.body.email);
+
+		res.status(HTTPSTATUS.OK).json({
+			message:
+				"If an account exists for this email, a password reset link has been sent",
+		});
+	},
+
+	resetPassword: async (
+		req: ValidatedRequest<{ body: typeof resetPasswordSchema }>,
+		res: Response,
+	) => {
+		await authService.resetPassword(req.body);
+
+		clearAuthenticationCookies(res).status(HTTPSTATUS.OK).json({
+			message: "Password reset successfully. Please log in again",
+		});
+	},
+};
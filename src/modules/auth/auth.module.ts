@@ -0,0 +1,25 @@
+import "./auth.openapi";
+import { defineModule } from "../../common/utils/module-loader";
+import { authRoutes } from "./auth.route";
+import { lockoutService } from "./lockout.service";
+import { verificationCodeService } from "./verification-code.service";
+
+export const authModule = defineModule({
+	name: "auth",
+	router: authRoutes,
+	personalData: {
+		export: async (userId) => ({
+			verificationCodes: await verificationCodeService.listForUser(userId),
+			lockout: await lockoutService.getAccountStatus(userId),
+		}),
+		erase: async (userId) => {
+			await Promise.all([
+				verificationCodeService.deleteForUser(userId),
+				lockoutService.unlockAccount(userId),
+			]);
+		},
+	},
+});
+
+export { authRoutes } from "./auth.route";
+export { authService } from "./auth.service";
@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { ErrorCodeEnum } from "../../common/enums/error-code.enum";
+import { openApiRegistry } from "../../common/openapi/registry";
+import {
+	messageResponseSchema,
+	userResponseSchema,
+	withMessage,
+} from "../../common/openapi/schemas";
+import {
+	forgotPasswordSchema,
+	loginSchema,
+	registerSchema,
+	resetPasswordSchema,
+	verifyEmailSchema,
+} from "../../common/validators/auth.validator";
+import { apiPath } from "../../configs/api.config";
+
+const COOKIES_SET = "Sets the `accessToken` and `refreshToken` cookies";
+
+openApiRegistry.registerRoutes({ basePath: apiPath("auth"), tag: "Auth" }, [
+	{
+		method: "post",
+		path: "/register",
+		operationId: "register",
+		summary: "Create an account and send a verification email",
+		request: { body: registerSchema },
+		responses: {
+			201: {
+				description: "Account created",
+				schema: withMessage({ user: userResponseSchema }),
+			},
+		},
+		errors: { 409: [ErrorCodeEnum.AUTH_EMAIL_ALREADY_EXISTS] },
+	},
+	{
+		method: "post",
+		path: "/login",
+		operationId: "login",
+		summary: "Log in with email and password",
+		description: `${COOKIES_SET} unless two-factor authentication is enabled, in which case \`mfaToken\` must be exchanged at \`POST /mfa/verify-login\`.`,
+		request: { body: loginSchema },
+		responses: {
+			200: {
+				description: "Logged in, or MFA challenge issued",
+				schema: z.union([
+					withMessage({
+						mfaRequired: z.literal(false),
+						user: userResponseSchema,
+					}),
+					withMessage({ mfaRequired: z.literal(true), mfaToken: z.string() }),
+				]),
+			},
+		},
+		errors: {
+			401: [
+				ErrorCodeEnum.AUTH_INVALID_CREDENTIALS,
+				ErrorCodeEnum.AUTH_ACCOUNT_DISABLED,
+				ErrorCodeEnum.AUTH_ACCOUNT_LOCKED,
+			],
+		},
+	},
+	{
+		method: "post",
+		path: "/refresh",
+		operationId: "refreshToken",
+		summary: "Rotate the refresh token cookie and issue a new access token",
+		responses: {
+			200: { description: COOKIES_SET, schema: messageResponseSchema },
+		},
+		errors: {
+			401: [
+				ErrorCodeEnum.AUTH_TOKEN_NOT_FOUND,
+				ErrorCodeEnum.AUTH_INVALID_TOKEN,
+				ErrorCodeEnum.AUTH_TOKEN_EXPIRED,
+			],
+		},
+	},
+	{
+		method: "post",
+		path: "/logout",
+		operationId: "logout",
+		summary: "Revoke the current session and clear auth cookies",
+		responses: {
+			200: { description: "Logged out", schema: messageResponseSchema },
+		},
+	},
+	{
+		method: "post",
+		path: "/logout-all",
+		operationId: "logoutAll",
+		summary: "Revoke every session of the current user",
+		responses: {
+			200: { description: "Logged out", schema: messageResponseSchema },
+		},
+	},
+	{
+		method: "post",
+		path: "/verify-email",
+		operationId: "verifyEmail",
+		summary: "Confirm an email address with the emailed code",
+		request: { body: verifyEmailSchema },
+		responses: {
+			200: {
+				description: "Email verified",
+				schema: withMessage({ user: userResponseSchema }),
+			},
+		},
+		errors: {
+			400: [ErrorCodeEnum.AUTH_TOKEN_EXPIRED],
+			404: [
+				ErrorCodeEnum.AUTH_TOKEN_NOT_FOUND,
+				ErrorCodeEnum.AUTH_USER_NOT_FOUND,
+			],
+		},
+	},
+	{
+		method: "post",
+		path: "/verify-email/resend",
+		operationId: "resendVerificationEmail",
+		summary: "Send a new verification email",
+		auth: true,
+		responses: {
+			200: { description: "Email sent", schema: messageResponseSchema },
+		},
+		errors: {
+			400: [ErrorCodeEnum.USR_400],
+			429: [ErrorCodeEnum.RATE_LIMIT_EXCEEDED],
+		},
+	},
+	{
+		method: "post",
+		path: "/forgot-password",
+		operationId: "forgotPassword",
+		summary: "Email a password reset code",
+		description:
+			"Always succeeds so the response does not reveal whether the account exists.",
+		request: { body: forgotPasswordSchema },
+		responses: {
+			200: { description: "Request accepted", schema: messageResponseSchema },
+		},
+	},
+	{
+		method: "post",
+		path: "/reset-password",
+		operationId: "resetPassword",
+		summary: "Set a new password with a reset code",
+		description: "Revokes every session and clears auth cookies.",
+		request: { body: resetPasswordSchema },
+		responses: {
+			200: { description: "Password reset", schema: messageResponseSchema },
+		},
+		errors: {
+			400: [ErrorCodeEnum.AUTH_TOKEN_EXPIRED],
+			404: [
+				ErrorCodeEnum.AUTH_TOKEN_NOT_FOUND,
+				ErrorCodeEnum.AUTH_USER_NOT_FOUND,
+			],
+		},
+	},
+]);
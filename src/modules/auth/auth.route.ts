@@ -0,0 +1,65 @@
+import { Router } from "express";
+import {
+	forgotPasswordSchema,
+	loginSchema,
+	registerSchema,
+	resetPasswordSchema,
+	verifyEmailSchema,
+} from "../../common/validators/auth.validator";
+import { validate } from "../../common/validators/validator";
+import {
+	asyncHandler,
+	authenticatedHandler,
+} from "../../middlewares/asyncHandler.middleware";
+import { authenticate } from "../../middlewares/authenticate.middleware";
+import { rateLimit } from "../../middlewares/rateLimit.middleware";
+import { authController } from "./auth.controller";
+
+const router = Router();
+
+router.post(
+	"/register",
+	rateLimit("authSensitive"),
+	validate({ body: registerSchema }),
+	asyncHandler(authController.register),
+);
+router.post(
+	"/login",
+	rateLimit("authSensitive"),
+	validate({ body: loginSchema }),
+	asyncHandler(authController.login),
+);
+router.post(
+	"/refresh",
+	rateLimit("tokenRefresh"),
+	asyncHandler(authController.refreshToken),
+);
+router.post("/logout", asyncHandler(authController.logout));
+router.post("/logout-all", asyncHandler(authController.logoutAll));
+
+router.post(
+	"/verify-email",
+	rateLimit("authSensitive"),
+	validate({ body: verifyEmailSchema }),
+	asyncHandler(authController.verifyEmail),
+);
+router.post(
+	"/verify-email/resend",
+	authenticate,
+	rateLimit("authSensitive"),
+	authenticatedHandler(authController.resendVerificationEmail),
+);
+router.post(
+	"/forgot-password",
+	rateLimit("authSensitive"),
+	validate({ body: forgotPasswordSchema }),
+	asyncHandler(authController.forgotPassword),
+);
+router.post(
+	"/reset-password",
+	rateLimit("authSensitive"),
+	validate({ body: resetPasswordSchema }),
+	asyncHandler(authController.resetPassword),
+);
+
+export { router as authRoutes };
@@ -0,0 +1,387 @@
+import {
+	AuditEventEnum,
+	AuditOutcomeEnum,
+} from "../../common/enums/audit-event.enum";
+import { ErrorCodeEnum } from "../../common/enums/error-code.enum";
+import { UserStatusEnum } from "../../common/enums/user-status.enum";
+import { VerificationCodeEnum } from "../../common/enums/verification-code.enum";
+import type {
+	LoginDto,
+	RegisterDto,
+	ResetPasswordDto,
+	SessionContext,
+} from "../../common/interface/interface";
+import {
+	AuthenticationException,
+	BadRequestException,
+	ConflictException,
+	InternalServerException,
+	NotFoundException,
+	TooManyRequestsException,
+} from "../../common/utils/app-error";
+import {
+	MFA_CHALLENGE_TTL,
+	mfaChallengeSignOptions,
+	signJwtToken,
+} from "../../common/utils/jwt";
+import { logger } from "../../common/utils/logger";
+import { type UserDocument, UserModel } from "../../database/models/model";
+import { sendTemplate } from "../../mailers/mailer";
+import { auditService } from "../audit/audit.service";
+import { sessionService } from "../session/session.service";
+import { userService } from "../user/user.service";
+import { lockoutService } from "./lockout.service";
+import { verificationCodeService } from "./verification-code.service";
+
+const EMAIL_VERIFICATION_TTL = "24h";
+const PASSWORD_RESET_TTL = "1h";
+
+const sendVerificationEmail = async (user: UserDocument) => {
+	const { code, expiresAt, retryAt } = await verificationCodeService.issue(
+		user._id,
+		VerificationCodeEnum.EMAIL_VERIFICATION,
+		EMAIL_VERIFICATION_TTL,
+	);
+
+	if (!code) return { retryAt };
+
+	await sendTemplate(
+		"verifyEmail",
+		{ code, expiresAt },
+		{ to: user.email, timeZone: user.timezone },
+	);
+
+	return {};
+};
+
+const sendPasswordResetEmail = async (user: UserDocument) => {
+	const { code, expiresAt, retryAt } = await verificationCodeService.issue(
+		user._id,
+		VerificationCodeEnum.PASSWORD_RESET,
+		PASSWORD_RESET_TTL,
+	);
+
+	if (!code) return { retryAt };
+
+	await sendTemplate(
+		"passwordReset",
+		{ code, expiresAt },
+		{ to: user.email, timeZone: user.timezone },
+	);
+
+	return {};
+};
+
+export const authService = {
+	register: async (registerData: RegisterDto) => {
+		const { name, email, password } = registerData;
+
+		const existingUser = await UserModel.exists({ email });
+		if (existingUser) {
+			throw new ConflictException(
+				"An account with this email already exists",
+				ErrorCodeEnum.AUTH_EMAIL_ALREADY_EXISTS,
+			);
+		}
+
+		const user = await UserModel.create({ name, email, password });
+		auditService.record({
+			event: AuditEventEnum.REGISTER,
+			actorId: user._id,
+		});
+
+		// Registration succeeds even if the mail provider is down; the user can resend
+		await sendVerificationEmail(user).catch((error) => {
+			logger.error("Failed to send verification email", { error });
+		});
+
+		return { user };
+	},
+
+	resendVerificationEmail: async (userId: string) => {
+		const user = await UserModel.findById(userId);
+		if (!user) {
+			throw new NotFoundException(
+				"User not found",
+				ErrorCodeEnum.AUTH_USER_NOT_FOUND,
+			);
+		}
+		if (user.isEmailVerified) {
+			throw new BadRequestException("Email address is already verified");
+		}
+
+		const { retryAt } = await sendVerificationEmail(user);
+		if (retryAt) {
+			throw new TooManyRequestsException(
+				"Please wait before requesting another verification email",
+				ErrorCodeEnum.RATE_LIMIT_EXCEEDED,
+				{ retryAt: retryAt.toISOString() },
+			);
+		}
+	},
+
+	verifyEmail: async (code: string) => {
+		const record = await verificationCodeService.consume(
+			code,
+			VerificationCodeEnum.EMAIL_VERIFICATION,
+		);
+
+		const user = await UserModel.findByIdAndUpdate(
+			record.userId,
+			{ isEmailVerified: true },
+			{ new: true },
+		);
+		if (!user) {
+			throw new NotFoundException(
+				"User not found",
+				ErrorCodeEnum.AUTH_USER_NOT_FOUND,
+			);
+		}
+		auditService.record({
+			event: AuditEventEnum.EMAIL_VERIFY,
+			actorId: user._id,
+		});
+
+		return { user };
+	},
+
+	/**
+	 * Always resolves the same way so callers cannot probe which emails exist
+	 */
+	forgotPassword: async (email: string) => {
+		const user = await UserModel.findOne({ email });
+		if (!user) return;
+
+		// Requested anonymously, so only the target is known
+		auditService.record({
+			event: AuditEventEnum.PASSWORD_RESET_REQUEST,
+			targetId: user._id,
+		});
+
+		// Not awaited: waiting on the mailer would make known emails respond slower
+		void sendPasswordResetEmail(user).catch((error) => {
+			logger.error("Failed to send password reset email", { error });
+		});
+	},
+
+	/**
+	 * Email a reset link on someone else's behalf (support staff)
+	 */
+	sendPasswordResetEmail: async (user: UserDocument) => {
+		const { retryAt } = await sendPasswordResetEmail(user);
+		if (retryAt) {
+			throw new TooManyRequestsException(
+				"Please wait before requesting another password reset email",
+				ErrorCodeEnum.RATE_LIMIT_EXCEEDED,
+				{ retryAt: retryAt.toISOString() },
+			);
+		}
+	},
+
+	resetPassword: async ({ code, password }: ResetPasswordDto) => {
+		const record = await verificationCodeService.consume(
+			code,
+			VerificationCodeEnum.PASSWORD_RESET,
+		);
+
+		const user = await UserModel.findById(record.userId);
+		if (!user) {
+			throw new NotFoundException(
+				"User not found",
+				ErrorCodeEnum.AUTH_USER_NOT_FOUND,
+			);
+		}
+
+		user.password = password;
+		// Receiving the reset email proves ownership of the address
+		user.isEmailVerified = true;
+		await user.save();
+
+		await Promise.all([
+			sessionService.revokeAllSessions(user._id),
+			lockoutService.unlockAccount(user._id),
+		]);
+		auditService.record({
+			event: AuditEventEnum.PASSWORD_RESET,
+			targetId: user._id,
+		});
+
+		return { user };
+	},
+
+	/**
+	 * Password step of the login
+	 * MFA-enabled users get a short-lived challenge token instead of a session
+	 */
+	login: async (loginData: LoginDto) => {
+		const { email, password, userAgent, ipAddress } = loginData;
+
+		await lockoutService.assertNotLocked({ ipAddress });
+
+		const user = await UserModel.findOne({ email }).select("+password");
+		if (!user) {
+			await lockoutService.recordFailure({ ipAddress });
+			auditService.record({
+				event: AuditEventEnum.LOGIN,
+				outcome: AuditOutcomeEnum.FAILURE,
+				details: { email, reason: "UNKNOWN_EMAIL" },
+			});
+			throw new AuthenticationException(
+				"Invalid email or password",
+				ErrorCodeEnum.AUTH_INVALID_CREDENTIALS,
+			);
+		}
+
+		await lockoutService.assertNotLocked({ user });
+
+		if (!(await user.comparePassword(password))) {
+			await lockoutService.recordFailure({ user, ipAddress });
+			auditService.record({
+				event: AuditEventEnum.LOGIN,
+				outcome: AuditOutcomeEnum.FAILURE,
+				targetId: user._id,
+				details: { reason: "INVALID_PASSWORD" },
+			});
+			throw new AuthenticationException(
+				"Invalid email or password",
+				ErrorCodeEnum.AUTH_INVALID_CREDENTIALS,
+			);
+		}
+
+		authService.assertAccountActive(user);
+
+		if (user.mfa?.enabled) {
+			// Recorded so `verify-login` can accept the challenge only once
+			const { code: jti } = await verificationCodeService.issue(
+				user._id,
+				VerificationCodeEnum.MFA_CHALLENGE,
+				MFA_CHALLENGE_TTL,
+				{ exclusive: false },
+			);
+			// Non-exclusive codes are never throttled
+			if (!jti) throw new InternalServerException();
+
+			const mfaToken = signJwtToken(
+				{ userId: user._id, jti },
+				mfaChallengeSignOptions,
+			);
+			return { user, mfaRequired: true as const, mfaToken };
+		}
+
+		await lockoutService.recordSuccess({ user, ipAddress });
+		const tokens = await authService.createLoginSession(user, {
+			userAgent,
+			ipAddress,
+		});
+
+		return { user, mfaRequired: false as const, ...tokens };
+	},
+
+	/**
+	 * Start a session for a fully authenticated user and sign its token pair
+	 * Logging in cancels a pending account deletion.
+	 */
+	createLoginSession: async (user: UserDocument, context: SessionContext) => {
+		await userService.cancelDeletion(user);
+
+		const { session, refreshToken, isNewDevice } =
+			await sessionService.createSession({
+				userId: user._id,
+				...context,
+			});
+
+		if (isNewDevice) {
+			void sendTemplate(
+				"newDeviceLogin",
+				{
+					name: user.name,
+					browser: session.device.browser,
+					os: session.device.os,
+					ipAddress: session.ipAddress,
+					loggedInAt: session.createdAt,
+				},
+				{ to: user.email, timeZone: user.timezone },
+			).catch((error) => {
+				logger.error("Failed to send new device login email", { error });
+			});
+		}
+
+		auditService.record({
+			event: AuditEventEnum.LOGIN,
+			actorId: user._id,
+			details: {
+				sessionId: String(session._id),
+				mfa: Boolean(user.mfa?.enabled),
+				newDevice: isNewDevice,
+			},
+		});
+
+		const accessToken = signJwtToken({
+			userId: user._id,
+			sessionId: session._id,
+		});
+
+		return { accessToken, refreshToken };
+	},
+
+	refreshToken: async (token: string) => {
+		const { session, refreshToken } =
+			await sessionService.rotateRefreshToken(token);
+		auditService.record({
+			event: AuditEventEnum.TOKEN_REFRESH,
+			actorId: session.userId,
+			details: { sessionId: String(session._id) },
+		});
+
+		const accessToken = signJwtToken({
+			userId: session.userId,
+			sessionId: session._id,
+		});
+
+		return { accessToken, refreshToken };
+	},
+
+	logout: async (refreshToken?: string) => {
+		if (!refreshToken) return;
+
+		const session =
+			await sessionService.findSessionByRefreshToken(refreshToken);
+		if (session) {
+			await sessionService.revokeSession(session._id);
+			auditService.record({
+				event: AuditEventEnum.LOGOUT,
+				actorId: session.userId,
+				details: { sessionId: String(session._id) },
+			});
+		}
+	},
+
+	logoutAll: async (refreshToken?: string) => {
+		if (!refreshToken) return;
+
+		const session =
+			await sessionService.findSessionByRefreshToken(refreshToken);
+		if (session) {
+			await sessionService.revokeAllSessions(session.userId);
+			auditService.record({
+				event: AuditEventEnum.LOGOUT_ALL,
+				actorId: session.userId,
+			});
+		}
+	},
+
+	assertAccountActive: (user: UserDocument) => {
+		if (user.status === UserStatusEnum.DISABLED) {
+			auditService.record({
+				event: AuditEventEnum.LOGIN,
+				outcome: AuditOutcomeEnum.FAILURE,
+				targetId: user._id,
+				details: { reason: "ACCOUNT_DISABLED" },
+			});
+			throw new AuthenticationException(
+				"Your account has been disabled",
+				ErrorCodeEnum.AUTH_ACCOUNT_DISABLED,
+			);
+		}
+	},
+};
@@ -0,0 +1,169 @@
+import { AuditEventEnum } from "../../common/enums/audit-event.enum";
+import { ErrorCodeEnum } from "../../common/enums/error-code.enum";
+import { AuthenticationException } from "../../common/utils/app-error";
+import { parseDuration } from "../../common/utils/date-time";
+import { logger } from "../../common/utils/logger";
+import {
+	LoginAttemptModel,
+	type UserDocument,
+} from "../../database/models/model";
+import { sendTemplate } from "../../mailers/mailer";
+import { auditService } from "../audit/audit.service";
+
+type LockoutPolicy = {
+	maxFailures: number;
+	baseLockMs: number;
+	maxLockMs: number;
+};
+
+type AttemptTarget = {
+	user?: Pick<UserDocument, "_id" | "email" | "name" | "timezone">;
+	ipAddress?: string;
+};
+
+// Shared NATs put many users behind one IP, so IPs get a looser threshold
+const ACCOUNT_POLICY: LockoutPolicy = {
+	maxFailures: 5,
+	baseLockMs: parseDuration("1m"),
+	maxLockMs: parseDuration("24h"),
+};
+
+const IP_POLICY: LockoutPolicy = {
+	maxFailures: 20,
+	baseLockMs: parseDuration("1m"),
+	maxLockMs: parseDuration("24h"),
+};
+
+// How long a quiet account/IP keeps its lock history
+const HISTORY_TTL_MS = parseDuration("24h");
+
+const accountKey = (userId: UserDocument["_id"]) => `account:${userId}`;
+const ipKey = (ipAddress: string) => `ip:${ipAddress}`;
+
+const keysFor = ({ user, ipAddress }: AttemptTarget) => [
+	...(user ? [{ key: accountKey(user._id), policy: ACCOUNT_POLICY }] : []),
+	...(ipAddress ? [{ key: ipKey(ipAddress), policy: IP_POLICY }] : []),
+];
+
+/**
+ * Count one failure; returns the new lock expiry if this failure triggered a lock
+ */
+const registerFailure = async (key: string, policy: LockoutPolicy) => {
+	const now = new Date();
+	const record = await LoginAttemptModel.findOneAndUpdate(
+		{ key },
+		{
+			$inc: { failures: 1 },
+			$set: {
+				lastFailureAt: now,
+				expiresAt: new Date(now.getTime() + HISTORY_TTL_MS),
+			},
+		},
+		{ upsert: true, new: true, setDefaultsOnInsert: true },
+	);
+
+	if (record.failures < policy.maxFailures) return null;
+
+	// 1m, 2m, 4m, ... capped at maxLockMs
+	const lockMs = Math.min(
+		policy.baseLockMs * 2 ** record.lockCount,
+		policy.maxLockMs,
+	);
+	const lockedUntil = new Date(now.getTime() + lockMs);
+
+	const locked = await LoginAttemptModel.findOneAndUpdate(
+		{ _id: record._id, failures: { $gte: policy.maxFailures } },
+		{
+			$set: {
+				failures: 0,
+				lockedUntil,
+				expiresAt: new Date(lockedUntil.getTime() + HISTORY_TTL_MS),
+			},
+			$inc: { lockCount: 1 },
+		},
+	);
+
+	return locked ? lockedUntil : null;
+};
+
+export const lockoutService = {
+	/**
+	 * Throw AUTH_ACCOUNT_LOCKED if the account or the IP is currently locked
+	 */
+	assertNotLocked: async (target: AttemptTarget) => {
+		const keys = keysFor(target).map(({ key }) => key);
+		if (!keys.length) return;
+
+		const locked = await LoginAttemptModel.findOne({
+			key: { $in: keys },
+			lockedUntil: { $gt: new Date() },
+		}).sort({ lockedUntil: -1 });
+
+		if (locked?.lockedUntil) {
+			throw new AuthenticationException(
+				"Too many failed attempts. Please try again later",
+				ErrorCodeEnum.AUTH_ACCOUNT_LOCKED,
+				{
+					unlockAt: locked.lockedUntil.toISOString(),
+					scope: locked.key.startsWith("ip:") ? "ip" : "account",
+				},
+			);
+		}
+	},
+
+	/**
+	 * Record a failed password or MFA attempt against the account and the IP
+	 * Emails the user when their account becomes locked
+	 */
+	recordFailure: async (target: AttemptTarget) => {
+		const results = await Promise.all(
+			keysFor(target).map(({ key, policy }) => registerFailure(key, policy)),
+		);
+
+		const accountLockedUntil = target.user ? results[0] : null;
+		if (target.user && accountLockedUntil) {
+			auditService.record({
+				event: AuditEventEnum.ACCOUNT_LOCK,
+				targetId: target.user._id,
+				details: { unlockAt: accountLockedUntil },
+			});
+			void sendTemplate(
+				"accountLocked",
+				{ name: target.user.name, unlockAt: accountLockedUntil },
+				{ to: target.user.email, timeZone: target.user.timezone },
+			).catch((error) => {
+				logger.error("Failed to send account locked email", { error });
+			});
+		}
+	},
+
+	/**
+	 * Reset counters after a fully successful login
+	 * The account's lock history is cleared; the IP's is kept
+	 */
+	recordSuccess: async ({ user, ipAddress }: AttemptTarget) => {
+		await Promise.all([
+			user && LoginAttemptModel.deleteOne({ key: accountKey(user._id) }),
+			ipAddress &&
+				LoginAttemptModel.updateOne({ key: ipKey(ipAddress) }, { failures: 0 }),
+		]);
+	},
+
+	/**
+	 * The account's failure counter and lock, if any
+	 */
+	getAccountStatus: async (userId: UserDocument["_id"]) => {
+		const record = await LoginAttemptModel.findOne({ key: accountKey(userId) });
+		if (!record) return null;
+
+		const { failures, lockCount, lockedUntil, lastFailureAt } = record;
+		return { failures, lockCount, lockedUntil, lastFailureAt };
+	},
+
+	/**
+	 * Lift an account lock and forget its history (admin action)
+	 */
+	unlockAccount: async (userId: UserDocument["_id"]) => {
+		await LoginAttemptModel.deleteOne({ key: accountKey(userId) });
+	},
+};
@@ -0,0 +1,119 @@
+import { ErrorCodeEnum } from "../../common/enums/error-code.enum";
+import type { VerificationCodeEnumType } from "../../common/enums/verification-code.enum";
+import {
+	BadRequestException,
+	NotFoundException,
+} from "../../common/utils/app-error";
+import { generateRandomToken, signToken } from "../../common/utils/crypto";
+import { fromNow } from "../../common/utils/date-time";
+import {
+	type UserDocument,
+	VerificationCodeModel,
+} from "../../database/models/model";
+
+const CODE_RESEND_INTERVAL_MS = 60 * 1000;
+
+type IssueOptions = {
+	email?: string;
+	// Exclusive codes replace earlier unused ones and are resend-throttled
+	exclusive?: boolean;
+};
+
+export const verificationCodeService = {
+	/**
+	 * Issue a single-use code, invalidating any earlier unused code of the same type
+	 * Returns `retryAt` instead of a code while the resend throttle is active
+	 */
+	issue: async (
+		userId: UserDocument["_id"],
+		type: VerificationCodeEnumType,
+		ttl: string,
+		{ email, exclusive = true }: IssueOptions = {},
+	) => {
+		if (exclusive) {
+			const recent = await VerificationCodeModel.findOne({
+				userId,
+				type,
+				createdAt: { $gt: new Date(Date.now() - CODE_RESEND_INTERVAL_MS) },
+			}).sort({ createdAt: -1 });
+
+			if (recent) {
+				return {
+					retryAt: new Date(
+						recent.createdAt.getTime() + CODE_RESEND_INTERVAL_MS,
+					),
+				};
+			}
+
+			await verificationCodeService.revokeUnused(userId, type);
+		}
+
+		const code = generateRandomToken();
+		const { expiresAt } = await VerificationCodeModel.create({
+			userId,
+			type,
+			email,
+			codeHash: signToken(code),
+			expiresAt: fromNow(ttl),
+		});
+
+		return { code, expiresAt };
+	},
+
+	/**
+	 * Atomically mark a code as used and return it
+	 */
+	consume: async (code: string, type: VerificationCodeEnumType) => {
+		const record = await VerificationCodeModel.findOneAndUpdate(
+			{ codeHash: signToken(code), type, usedAt: { $exists: false } },
+			{ usedAt: new Date() },
+		);
+
+		if (!record) {
+			throw new NotFoundException(
+				"Invalid or already used code",
+				ErrorCodeEnum.AUTH_TOKEN_NOT_FOUND,
+			);
+		}
+
+		if (record.expiresAt.getTime() <= Date.now()) {
+			throw new BadRequestException(
+				"This code has expired. Please request a new one",
+				ErrorCodeEnum.AUTH_TOKEN_EXPIRED,
+			);
+		}
+
+		return record;
+	},
+
+	/**
+	 * Issued codes without their hashes
+	 */
+	listForUser: async (userId: UserDocument["_id"]) => {
+		const records = await VerificationCodeModel.find({ userId }).sort({
+			createdAt: -1,
+		});
+		return records.map(({ type, email, usedAt, expiresAt, createdAt }) => ({
+			type,
+			email,
+			usedAt,
+			expiresAt,
+			createdAt,
+		}));
+	},
+
+	deleteForUser: async (userId: UserDocument["_id"]) => {
+		await VerificationCodeModel.deleteMany({ userId });
+	},
+
+	revokeUnused: async (
+		userId: UserDocument["_id"],
+		type: VerificationCodeEnumType,
+	) => {
+		await VerificationCodeModel.deleteMany({
+			userId,
+			type,
+			usedAt: { $exists: false },
+		});
+	},
+};
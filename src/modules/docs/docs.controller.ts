@@ -0,0 +1,14 @@
+import type { Request, Response } from "express";
+import { buildOpenApiDocument } from "../../common/openapi/document";
+import { HTTPSTATUS } from "../../configs/http.config";
+
+// Routes are registered at import time, so the document never changes
+let document: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+export const docsController = {
+	openApi: async (_req: Request, res: Response) => {
+		document ??= buildOpenApiDocument();
+
+		res.status(HTTPSTATUS.OK).json(document);
+	},
+};
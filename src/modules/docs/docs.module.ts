@@ -0,0 +1,13 @@
+import { defineModule } from "../../common/utils/module-loader";
+import { Env } from "../../configs/env.config";
+import { docsRoutes } from "./docs.route";
+
+// Serves GET /openapi.json and the interactive UI at /docs
+export const docsModule = defineModule({
+	name: "docs",
+	path: "/",
+	router: docsRoutes,
+	enabled: Env.API_DOCS_ENABLED,
+});
+
+export { docsRoutes } from "./docs.route";
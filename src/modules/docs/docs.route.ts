@@ -0,0 +1,18 @@
+import { Router } from "express";
+import swaggerUi from "swagger-ui-express";
+import { asyncHandler } from "../../middlewares/asyncHandler.middleware";
+import { docsController } from "./docs.controller";
+
+const router = Router();
+
+router.get("/openapi.json", asyncHandler(docsController.openApi));
+router.use(
+	"/docs",
+	swaggerUi.serve,
+	swaggerUi.setup(undefined, {
+		customSiteTitle: "API Docs",
+		swaggerOptions: { url: "/openapi.json", withCredentials: true },
+	}),
+);
+
+export { router as docsRoutes };
@@ -0,0 +1,19 @@
+import type { Request, Response } from "express";
+import { HTTPSTATUS } from "../../configs/http.config";
+import { errorCatalogService } from "./errors.service";
+
+export const errorCatalogController = {
+	getAll: async (_req: Request, res: Response) => {
+		res.status(HTTPSTATUS.OK).json({
+			message: "Error codes retrieved successfully",
+			errors: errorCatalogService.list(),
+		});
+	},
+
+	getOne: async (req: Request, res: Response) => {
+		res.status(HTTPSTATUS.OK).json({
+			message: "Error code retrieved successfully",
+			error: errorCatalogService.get(req.params.code),
+		});
+	},
+};
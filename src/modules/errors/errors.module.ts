@@ -0,0 +1,12 @@
+import "./errors.openapi";
+import { defineModule } from "../../common/utils/module-loader";
+import { errorCatalogRoutes } from "./errors.route";
+
+// Public catalog of every error code, at /api/v1/errors
+export const errorsModule = defineModule({
+	name: "errors",
+	router: errorCatalogRoutes,
+});
+
+export { errorCatalogRoutes } from "./errors.route";
+export { errorCatalogService } from "./errors.service";
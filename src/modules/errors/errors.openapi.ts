@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { ErrorCodeEnum } from "../../common/enums/error-code.enum";
+import { openApiRegistry } from "../../common/openapi/registry";
+import { withMessage } from "../../common/openapi/schemas";
+import { apiPath } from "../../configs/api.config";
+
+const errorCodeSchema = openApiRegistry.registerComponent(
+	"ErrorCode",
+	z.object({
+		code: z.enum(Object.values(ErrorCodeEnum) as [string, ...string[]]),
+		type: z.string().describe("Problem `type` URI of the code"),
+		status: z.number().int().describe("Status the code is usually sent with"),
+		title: z.string(),
+		description: z.string(),
+	}),
+);
+
+openApiRegistry.registerRoutes({ basePath: apiPath("errors"), tag: "Errors" }, [
+	{
+		method: "get",
+		path: "/",
+		operationId: "listErrorCodes",
+		summary: "Every error code with its HTTP status and meaning",
+		responses: {
+			200: {
+				description: "The error catalog",
+				schema: withMessage({ errors: z.array(errorCodeSchema) }),
+			},
+		},
+	},
+	{
+		method: "get",
+		path: "/:code",
+		operationId: "getErrorCode",
+		summary: "One error code; problem `type` URIs resolve here",
+		responses: {
+			200: {
+				description: "The error code",
+				schema: withMessage({ error: errorCodeSchema }),
+			},
+		},
+		errors: { 404: [ErrorCodeEnum.USR_404] },
+	},
+]);
@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { asyncHandler } from "../../middlewares/asyncHandler.middleware";
+import { errorCatalogController } from "./errors.controller";
+
+const router = Router();
+
+router.get("/", asyncHandler(errorCatalogController.getAll));
+// Problem `type` URIs point here unless ERROR_TYPE_BASE_URI is set
+router.get("/:code", asyncHandler(errorCatalogController.getOne));
+
+export { router as errorCatalogRoutes };
@@ -0,0 +1,24 @@
+import { ErrorCodeEnum } from "../../common/enums/error-code.enum";
+import { NotFoundException } from "../../common/utils/app-error";
+import {
+	ERROR_CATALOG,
+	errorTypeUri,
+	isErrorCode,
+} from "../../common/utils/error-catalog";
+
+const describe = (code: keyof typeof ERROR_CATALOG) => ({
+	code,
+	type: errorTypeUri(code),
+	...ERROR_CATALOG[code],
+});
+
+export const errorCatalogService = {
+	list: () => Object.values(ErrorCodeEnum).map(describe),
+
+	get: (code: string) => {
+		if (!isErrorCode(code)) {
+			throw new NotFoundException(`Unknown error code ${code}`);
+		}
+		return describe(code);
+	},
+};
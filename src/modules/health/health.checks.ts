@@ -0,0 +1,116 @@
+import { monitorEventLoopDelay } from "node:perf_hooks";
+import v8 from "node:v8";
+import mongoose from "mongoose";
+import { mailer } from "../../mailers/mailer";
+import type { HealthCheck } from "./health.service";
+
+const MAX_EVENT_LOOP_LAG_MS = 500;
+const MAX_HEAP_USAGE_RATIO = 0.9;
+// Event loop lag is reported for the last full window
+const EVENT_LOOP_WINDOW_MS = 10 * 1000;
+// Probes reuse a verification this recent instead of reconnecting to the mail server
+const MAILER_VERIFY_TTL_MS = 60 * 1000;
+
+const toMs = (nanoseconds: number) => Math.round(nanoseconds / 1e4) / 100;
+
+const eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+eventLoopDelay.enable();
+
+const readEventLoopDelay = () => ({
+	meanMs: toMs(eventLoopDelay.mean),
+	p99Ms: toMs(eventLoopDelay.percentile(99)),
+	maxMs: toMs(eventLoopDelay.max),
+});
+
+// Reset on a timer, not per probe, so overlapping probes see the same window
+let lastEventLoopWindow: ReturnType<typeof readEventLoopDelay> | undefined;
+setInterval(() => {
+	lastEventLoopWindow = readEventLoopDelay();
+	eventLoopDelay.reset();
+}, EVENT_LOOP_WINDOW_MS).unref();
+
+let mailerVerification: { checkedAt: Date; result: Promise<void> } | undefined;
+
+/**
+ * Verify the mail transport at most once per MAILER_VERIFY_TTL_MS
+ * Concurrent probes share the pending attempt; failures are cached too.
+ */
+const verifyMailer = (verify: () => Promise<void>) => {
+	if (
+		!mailerVerification ||
+		Date.now() - mailerVerification.checkedAt.getTime() > MAILER_VERIFY_TTL_MS
+	) {
+		mailerVerification = { checkedAt: new Date(), result: verify() };
+	}
+	return mailerVerification;
+};
+
+/**
+ * Built-in readiness checks: database, mail transport, event loop and heap
+ */
+export const defaultHealthChecks: HealthCheck[] = [
+	{
+		name: "mongodb",
+		check: async () => {
+			const { connection } = mongoose;
+			if (connection.readyState !== 1 || !connection.db) {
+				throw new Error(
+					`Not connected (state: ${mongoose.STATES[connection.readyState]})`,
+				);
+			}
+			await connection.db.admin().ping();
+			return undefined;
+		},
+	},
+	// Mail outages delay emails but should not pull the instance from rotation
+	{
+		name: "mailer",
+		critical: false,
+		timeoutMs: 5000,
+		check: async () => {
+			if (!mailer.verify) {
+				return { transport: mailer.name, verified: false };
+			}
+			const { checkedAt, result } = verifyMailer(mailer.verify.bind(mailer));
+			await result;
+			return {
+				transport: mailer.name,
+				verified: true,
+				checkedAt: checkedAt.toISOString(),
+			};
+		},
+	},
+	{
+		name: "eventLoop",
+		check: async () => {
+			// Until the first window ends, report what has been measured so far
+			const details = lastEventLoopWindow ?? readEventLoopDelay();
+
+			if (details.p99Ms > MAX_EVENT_LOOP_LAG_MS) {
+				throw new Error(
+					`Event loop lag p99 ${details.p99Ms}ms exceeds ${MAX_EVENT_LOOP_LAG_MS}ms`,
+				);
+			}
+			return details;
+		},
+	},
+	{
+		name: "memory",
+		check: async () => {
+			const { used_heap_size, heap_size_limit } = v8.getHeapStatistics();
+			const ratio = used_heap_size / heap_size_limit;
+			const details = {
+				heapUsedMb: Math.round(used_heap_size / 1024 / 1024),
+				heapLimitMb: Math.round(heap_size_limit / 1024 / 1024),
+				rssMb: Math.round(process.memoryUsage.rss() / 1024 / 1024),
+			};
+
+			if (ratio > MAX_HEAP_USAGE_RATIO) {
+				throw new Error(
+					`Heap usage ${Math.round(ratio * 100)}% exceeds ${MAX_HEAP_USAGE_RATIO * 100}%`,
+				);
+			}
+			return details;
+		},
+	},
+];
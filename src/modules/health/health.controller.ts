@@ -0,0 +1,22 @@
+import type { Request, Response } from "express";
+import { HTTPSTATUS } from "../../configs/http.config";
+import { healthService } from "./health.service";
+
+export const healthController = {
+	// Liveness only says the process can serve HTTP; restarts fix nothing else
+	live: async (_req: Request, res: Response) => {
+		res.status(HTTPSTATUS.OK).json({
+			status: "OK",
+			uptime: Math.round(process.uptime()),
+			timestamp: new Date().toISOString(),
+		});
+	},
+
+	ready: async (_req: Request, res: Response) => {
+		const report = await healthService.getReadiness();
+
+		res
+			.status(report.ready ? HTTPSTATUS.OK : HTTPSTATUS.SERVICE_UNAVAILABLE)
+			.json(report);
+	},
+};
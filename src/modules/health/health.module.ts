@@ -0,0 +1,21 @@
+import "./health.openapi";
+import { defineModule } from "../../common/utils/module-loader";
+import { defaultHealthChecks } from "./health.checks";
+import { healthRoutes } from "./health.route";
+import { healthService } from "./health.service";
+
+// Probes stay at a fixed, unversioned path for load balancers
+export const healthModule = defineModule({
+	name: "health",
+	path: "/health",
+	router: healthRoutes,
+	healthChecks: defaultHealthChecks,
+	onModuleMount: ({ healthChecks = [] }) => {
+		for (const healthCheck of healthChecks) {
+			healthService.register(healthCheck);
+		}
+	},
+});
+
+export { healthRoutes } from "./health.route";
+export { healthService } from "./health.service";
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { openApiRegistry } from "../../common/openapi/registry";
+
+const healthCheckResultSchema = openApiRegistry.registerComponent(
+	"HealthCheckResult",
+	z.object({
+		status: z.enum(["UP", "DOWN"]),
+		critical: z.boolean(),
+		durationMs: z.number(),
+		details: z.record(z.unknown()).optional(),
+		error: z.string().optional(),
+	}),
+);
+
+const readinessReportSchema = z.object({
+	status: z.enum(["OK", "DEGRADED", "DOWN", "SHUTTING_DOWN"]),
+	ready: z.boolean(),
+	timestamp: z.string().datetime(),
+	checks: z.record(healthCheckResultSchema),
+});
+
+openApiRegistry.registerRoutes({ basePath: "/health", tag: "Health" }, [
+	{
+		method: "get",
+		path: "/live",
+		operationId: "liveness",
+		summary: "Liveness probe",
+		responses: {
+			200: {
+				description: "The process is serving HTTP",
+				schema: z.object({
+					status: z.literal("OK"),
+					uptime: z.number(),
+					timestamp: z.string().datetime(),
+				}),
+			},
+		},
+	},
+	{
+		method: "get",
+		path: "/ready",
+		operationId: "readiness",
+		summary: "Readiness probe with per-dependency results",
+		responses: {
+			200: {
+				description: "Ready to serve traffic",
+				schema: readinessReportSchema,
+			},
+			503: {
+				description: "A critical check failed or the server is shutting down",
+				schema: readinessReportSchema,
+			},
+		},
+	},
+]);
@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { asyncHandler } from "../../middlewares/asyncHandler.middleware";
+import { healthController } from "./health.controller";
+
+const router = Router();
+
+router.get("/", asyncHandler(healthController.ready));
+router.get("/live", asyncHandler(healthController.live));
+router.get("/ready", asyncHandler(healthController.ready));
+
+export { router as healthRoutes };
@@ -0,0 +1,118 @@
+import { logger } from "../../common/utils/logger";
+import { isShuttingDown } from "../../common/utils/process-handlers";
+
+const DEFAULT_TIMEOUT_MS = 2000;
+
+export type HealthCheckStatus = "UP" | "DOWN";
+
+export type HealthCheck = {
+	name: string;
+	// Resolve with optional details when healthy; throw when not
+	check: () => Promise<Record<string, unknown> | undefined>;
+	timeoutMs?: number;
+	// Non-critical failures degrade the report but keep the instance ready
+	critical?: boolean;
+};
+
+export type HealthCheckResult = {
+	status: HealthCheckStatus;
+	critical: boolean;
+	durationMs: number;
+	details?: Record<string, unknown>;
+	error?: string;
+};
+
+export type ReadinessReport = {
+	status: "OK" | "DEGRADED" | "DOWN" | "SHUTTING_DOWN";
+	ready: boolean;
+	timestamp: string;
+	checks: Record<string, HealthCheckResult>;
+};
+
+const registry = new Map<string, HealthCheck>();
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number) => {
+	let timer: NodeJS.Timeout | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(
+			() => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+			timeoutMs,
+		);
+	});
+	return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+const runCheck = async (
+	healthCheck: HealthCheck,
+): Promise<HealthCheckResult> => {
+	const critical = healthCheck.critical ?? true;
+	const startedAt = Date.now();
+
+	try {
+		const details = await withTimeout(
+			healthCheck.check(),
+			healthCheck.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+		);
+		return {
+			status: "UP",
+			critical,
+			durationMs: Date.now() - startedAt,
+			details,
+		};
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		logger.warn(`Health check "${healthCheck.name}" failed: ${message}`);
+		return {
+			status: "DOWN",
+			critical,
+			durationMs: Date.now() - startedAt,
+			error: message,
+		};
+	}
+};
+
+export const healthService = {
+	/**
+	 * Add a readiness check; registering the same name again replaces it
+	 *
+	 * @example
+	 * healthService.register({ name: "redis", check: async () => { await redis.ping(); } });
+	 */
+	register: (healthCheck: HealthCheck) => {
+		registry.set(healthCheck.name, healthCheck);
+	},
+
+	unregister: (name: string) => {
+		registry.delete(name);
+	},
+
+	getReadiness: async (): Promise<ReadinessReport> => {
+		const entries = await Promise.all(
+			[...registry.values()].map(
+				async (healthCheck) =>
+					[healthCheck.name, await runCheck(healthCheck)] as const,
+			),
+		);
+		const checks = Object.fromEntries(entries);
+		const results = Object.values(checks);
+
+		const criticalDown = results.some(
+			(result) => result.status === "DOWN" && result.critical,
+		);
+		const anyDown = results.some((result) => result.status === "DOWN");
+		const draining = isShuttingDown();
+
+		return {
+			status: draining
+				? "SHUTTING_DOWN"
+				: criticalDown
+					? "DOWN"
+					: anyDown
+						? "DEGRADED"
+						: "OK",
+			ready: !draining && !criticalDown,
+			timestamp: new Date().toISOString(),
+			checks,
+		};
+	},
+};
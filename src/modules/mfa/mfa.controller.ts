@@ -0,0 +1,89 @@
+import type { Response } from "express";
+import type { AuthenticatedRequest } from "../../common/interface/interface";
+import { setAuthenticationCookies } from "../../common/utils/cookie";
+import type {
+	mfaCodeBodySchema,
+	verifyMfaLoginSchema,
+} from "../../common/validators/mfa.validator";
+import type {
+	AuthenticatedValidatedRequest,
+	ValidatedRequest,
+} from "../../common/validators/validator";
+import { HTTPSTATUS } from "../../configs/http.config";
+import { mfaService } from "./mfa.service";
+
+export const mfaController = {
+	setup: async (req: AuthenticatedRequest, res: Response) => {
+		const { secret, otpauthUrl, qrCodeDataUrl } = await mfaService.setup(
+			req.user.id,
+		);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Scan the QR code with your authenticator app",
+			secret,
+			otpauthUrl,
+			qrCodeDataUrl,
+		});
+	},
+
+	confirmSetup: async (
+		req: AuthenticatedValidatedRequest<{ body: typeof mfaCodeBodySchema }>,
+		res: Response,
+	) => {
+		const { code } = req.body;
+		const { backupCodes } = await mfaService.confirmSetup(
+			req.user.id,
+			code,
+			req.ip,
+		);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Two-factor authentication enabled successfully",
+			backupCodes,
+		});
+	},
+
+	disable: async (
+		req: AuthenticatedValidatedRequest<{ body: typeof mfaCodeBodySchema }>,
+		res: Response,
+	) => {
+		const { code } = req.body;
+		await mfaService.disable(req.user.id, code, req.ip);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Two-factor authentication disabled successfully",
+		});
+	},
+
+	regenerateBackupCodes: async (
+		req: AuthenticatedValidatedRequest<{ body: typeof mfaCodeBodySchema }>,
+		res: Response,
+	) => {
+		const { code } = req.body;
+		const { backupCodes } = await mfaService.regenerateBackupCodes(
+			req.user.id,
+			code,
+			req.ip,
+		);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Backup codes regenerated successfully",
+			backupCodes,
+		});
+	},
+
+	verifyLogin: async (
+		req: ValidatedRequest<{ body: typeof verifyMfaLoginSchema }>,
+		res: Response,
+	) => {
+		const { user, accessToken, refreshToken } = await mfaService.verifyLogin({
+			...req.body,
+			userAgent: req.headers["user-agent"],
+			ipAddress: req.ip,
+		});
+
+		setAuthenticationCookies({ res, accessToken, refreshToken })
+			.status(HTTPSTATUS.OK)
+			.json({ message: "User logged in successfully", user });
+	},
+};
@@ -0,0 +1,16 @@
+import "./mfa.openapi";
+import { defineModule } from "../../common/utils/module-loader";
+import { mfaRoutes } from "./mfa.route";
+import { mfaService } from "./mfa.service";
+
+export const mfaModule = defineModule({
+	name: "mfa",
+	router: mfaRoutes,
+	// Secrets live on the user document and are erased with it
+	personalData: {
+		export: (userId) => mfaService.getStatus(String(userId)),
+	},
+});
+
+export { mfaRoutes } from "./mfa.route";
+export { mfaService } from "./mfa.service";
@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { ErrorCodeEnum } from "../../common/enums/error-code.enum";
+import { openApiRegistry } from "../../common/openapi/registry";
+import {
+	messageResponseSchema,
+	userResponseSchema,
+	withMessage,
+} from "../../common/openapi/schemas";
+import {
+	mfaCodeBodySchema,
+	verifyMfaLoginSchema,
+} from "../../common/validators/mfa.validator";
+import { apiPath } from "../../configs/api.config";
+
+const backupCodesResponseSchema = withMessage({
+	backupCodes: z.array(z.string()),
+});
+
+openApiRegistry.registerRoutes({ basePath: apiPath("mfa"), tag: "MFA" }, [
+	{
+		method: "post",
+		path: "/verify-login",
+		operationId: "verifyMfaLogin",
+		summary: "Complete an MFA login with an authenticator or backup code",
+		description: "Sets the `accessToken` and `refreshToken` cookies.",
+		request: { body: verifyMfaLoginSchema },
+		responses: {
+			200: {
+				description: "Logged in",
+				schema: withMessage({ user: userResponseSchema }),
+			},
+		},
+		errors: {
+			401: [
+				ErrorCodeEnum.AUTH_INVALID_CREDENTIALS,
+				ErrorCodeEnum.AUTH_INVALID_TOKEN,
+				ErrorCodeEnum.AUTH_ACCOUNT_LOCKED,
+			],
+		},
+	},
+	{
+		method: "post",
+		path: "/setup",
+		operationId: "setupMfa",
+		summary: "Start enrolling an authenticator app",
+		auth: true,
+		responses: {
+			200: {
+				description: "Secret and QR code to scan",
+				schema: withMessage({
+					secret: z.string(),
+					otpauthUrl: z.string(),
+					qrCodeDataUrl: z.string(),
+				}),
+			},
+		},
+		errors: {
+			400: [ErrorCodeEnum.USR_400],
+			403: [ErrorCodeEnum.AUTH_403],
+		},
+	},
+	{
+		method: "post",
+		path: "/verify",
+		operationId: "confirmMfaSetup",
+		summary: "Confirm enrollment and receive backup codes",
+		auth: true,
+		request: { body: mfaCodeBodySchema },
+		responses: {
+			200: {
+				description: "MFA enabled; backup codes are shown only once",
+				schema: backupCodesResponseSchema,
+			},
+		},
+		errors: {
+			400: [ErrorCodeEnum.USR_400],
+			401: [ErrorCodeEnum.AUTH_INVALID_CREDENTIALS],
+		},
+	},
+	{
+		method: "post",
+		path: "/disable",
+		operationId: "disableMfa",
+		summary: "Turn off two-factor authentication",
+		auth: true,
+		request: { body: mfaCodeBodySchema },
+		responses: {
+			200: { description: "MFA disabled", schema: messageResponseSchema },
+		},
+		errors: {
+			400: [ErrorCodeEnum.USR_400],
+			401: [
+				ErrorCodeEnum.AUTH_INVALID_CREDENTIALS,
+				ErrorCodeEnum.AUTH_ACCOUNT_LOCKED,
+			],
+		},
+	},
+	{
+		method: "post",
+		path: "/backup-codes",
+		operationId: "regenerateBackupCodes",
+		summary: "Replace all backup codes",
+		auth: true,
+		request: { body: mfaCodeBodySchema },
+		responses: {
+			200: {
+				description: "New backup codes; previous ones stop working",
+				schema: backupCodesResponseSchema,
+			},
+		},
+		errors: {
+			400: [ErrorCodeEnum.USR_400],
+			401: [
+				ErrorCodeEnum.AUTH_INVALID_CREDENTIALS,
+				ErrorCodeEnum.AUTH_ACCOUNT_LOCKED,
+			],
+		},
+	},
+]);
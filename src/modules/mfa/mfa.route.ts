@@ -0,0 +1,54 @@
+import { Router } from "express";
+import {
+	mfaCodeBodySchema,
+	verifyMfaLoginSchema,
+} from "../../common/validators/mfa.validator";
+import { validate } from "../../common/validators/validator";
+import {
+	asyncHandler,
+	authenticatedHandler,
+} from "../../middlewares/asyncHandler.middleware";
+import { authenticate } from "../../middlewares/authenticate.middleware";
+import { rateLimit } from "../../middlewares/rateLimit.middleware";
+import { requireVerifiedEmail } from "../../middlewares/requireVerifiedEmail.middleware";
+import { mfaController } from "./mfa.controller";
+
+const router = Router();
+
+router.post(
+	"/verify-login",
+	rateLimit("authSensitive"),
+	validate({ body: verifyMfaLoginSchema }),
+	asyncHandler(mfaController.verifyLogin),
+);
+
+router.post(
+	"/setup",
+	authenticate,
+	rateLimit("perUser"),
+	requireVerifiedEmail,
+	authenticatedHandler(mfaController.setup),
+);
+router.post(
+	"/verify",
+	authenticate,
+	rateLimit("perUser"),
+	validate({ body: mfaCodeBodySchema }),
+	authenticatedHandler(mfaController.confirmSetup),
+);
+router.post(
+	"/disable",
+	authenticate,
+	rateLimit("perUser"),
+	validate({ body: mfaCodeBodySchema }),
+	authenticatedHandler(mfaController.disable),
+);
+router.post(
+	"/backup-codes",
+	authenticate,
+	rateLimit("perUser"),
+	validate({ body: mfaCodeBodySchema }),
+	authenticatedHandler(mfaController.regenerateBackupCodes),
+);
+
+export { router as mfaRoutes };
@@ -0,0 +1,360 @@
+import { randomBytes } from "node:crypto";
+import qrcode from "qrcode";
+import speakeasy from "speakeasy";
+import {
+	AuditEventEnum,
+	AuditOutcomeEnum,
+} from "../../common/enums/audit-event.enum";
+import { ErrorCodeEnum } from "../../common/enums/error-code.enum";
+import { VerificationCodeEnum } from "../../common/enums/verification-code.enum";
+import type { VerifyMfaLoginDto } from "../../common/interface/interface";
+import {
+	AppError,
+	AuthenticationException,
+	BadRequestException,
+	NotFoundException,
+} from "../../common/utils/app-error";
+import { compareValue, hashValue } from "../../common/utils/bcrypt";
+import {
+	type MfaChallengeTPayload,
+	mfaChallengeSignOptions,
+	verifyJwtToken,
+} from "../../common/utils/jwt";
+import { logger } from "../../common/utils/logger";
+import { Env } from "../../configs/env.config";
+import { type UserDocument, UserModel } from "../../database/models/model";
+import { sendTemplate } from "../../mailers/mailer";
+import { auditService } from "../audit/audit.service";
+import { authService } from "../auth/auth.service";
+import { lockoutService } from "../auth/lockout.service";
+import { verificationCodeService } from "../auth/verification-code.service";
+
+const BACKUP_CODE_COUNT = 10;
+const TOTP_STEP_SECONDS = 30;
+
+type AssertCodeOptions = {
+	allowBackupCode?: boolean;
+	// Check against the secret being enrolled instead of the active one
+	pendingSetup?: boolean;
+	ipAddress?: string;
+};
+
+const findUserWithSecrets = async (userId: string) => {
+	const user = await UserModel.findById(userId).select(
+		"+mfa.secret +mfa.pendingSecret +mfa.backupCodes +mfa.lastUsedStep",
+	);
+	if (!user) {
+		throw new NotFoundException(
+			"User not found",
+			ErrorCodeEnum.AUTH_USER_NOT_FOUND,
+		);
+	}
+	return user;
+};
+
+/**
+ * Time step a code belongs to, or null when it does not match
+ */
+const matchTotpStep = (secret: string | undefined, code: string) => {
+	if (!secret) return null;
+
+	const match = speakeasy.totp.verifyDelta({
+		secret,
+		encoding: "base32",
+		token: code,
+		step: TOTP_STEP_SECONDS,
+		window: 1,
+	});
+	if (!match) return null;
+
+	return Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS) + match.delta;
+};
+
+/**
+ * Accept an authenticator code at most once
+ * The step is claimed atomically, so concurrent requests cannot both use it.
+ */
+const useTotpCode = async (user: UserDocument, code: string) => {
+	const step = matchTotpStep(user.mfa.secret, code);
+	if (step === null) return false;
+
+	const { modifiedCount } = await UserModel.updateOne(
+		{ _id: user._id, "mfa.lastUsedStep": { $not: { $gte: step } } },
+		{ $set: { "mfa.lastUsedStep": step } },
+	);
+	return modifiedCount === 1;
+};
+
+/**
+ * Accept the first code from the authenticator being enrolled
+ * Its step is saved with the enrollment so the code cannot be reused to log in.
+ */
+const usePendingCode = (user: UserDocument, code: string) => {
+	const step = matchTotpStep(user.mfa.pendingSecret, code);
+	if (step === null) return false;
+
+	user.mfa.lastUsedStep = step;
+	return true;
+};
+
+const invalidCode = () =>
+	new AuthenticationException(
+		"Invalid authentication code",
+		ErrorCodeEnum.AUTH_INVALID_CREDENTIALS,
+	);
+
+const expiredChallenge = () =>
+	new AuthenticationException(
+		"Your login attempt has expired. Please log in again",
+		ErrorCodeEnum.AUTH_INVALID_TOKEN,
+	);
+
+/**
+ * Use up a login challenge so its `mfaToken` cannot mint another session
+ */
+const consumeChallenge = async (jti: string) => {
+	try {
+		await verificationCodeService.consume(
+			jti,
+			VerificationCodeEnum.MFA_CHALLENGE,
+		);
+	} catch (error) {
+		if (error instanceof AppError) throw expiredChallenge();
+		throw error;
+	}
+};
+
+/**
+ * Generate fresh backup codes, store their hashes and return the plain codes
+ * The plain codes are shown to the user exactly once
+ */
+const generateBackupCodes = async (user: UserDocument) => {
+	const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+		const hex = randomBytes(4).toString("hex");
+		return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+	});
+
+	user.mfa.backupCodes = await Promise.all(
+		codes.map(async (code) => ({ codeHash: await hashValue(code) })),
+	);
+
+	return codes;
+};
+
+/**
+ * Consume a matching unused backup code, returning whether one matched
+ */
+const useBackupCode = async (user: UserDocument, code: string) => {
+	const normalized = code.toLowerCase();
+
+	for (const backupCode of user.mfa.backupCodes) {
+		if (
+			!backupCode.usedAt &&
+			(await compareValue(normalized, backupCode.codeHash))
+		) {
+			backupCode.usedAt = new Date();
+			await user.save();
+			return true;
+		}
+	}
+	return false;
+};
+
+/**
+ * Verify a code against the authenticator; wrong and reused codes count toward lockout
+ */
+const assertValidCode = async (
+	user: UserDocument,
+	code: string,
+	{
+		allowBackupCode = false,
+		pendingSetup = false,
+		ipAddress,
+	}: AssertCodeOptions = {},
+) => {
+	await lockoutService.assertNotLocked({ user, ipAddress });
+
+	const valid = pendingSetup
+		? usePendingCode(user, code)
+		: (await useTotpCode(user, code)) ||
+			(allowBackupCode && (await useBackupCode(user, code)));
+
+	if (!valid) {
+		await lockoutService.recordFailure({ user, ipAddress });
+		auditService.record({
+			event: AuditEventEnum.MFA_VERIFY,
+			outcome: AuditOutcomeEnum.FAILURE,
+			targetId: user._id,
+		});
+		throw invalidCode();
+	}
+
+	await lockoutService.recordSuccess({ user, ipAddress });
+};
+
+export const mfaService = {
+	/**
+	 * Enrollment state without the secret or backup code hashes
+	 */
+	getStatus: async (userId: string) => {
+		const { mfa } = await findUserWithSecrets(userId);
+
+		return {
+			enabled: mfa.enabled,
+			enabledAt: mfa.enabledAt ?? null,
+			setupPending: !!mfa.pendingSecret,
+			backupCodesRemaining: mfa.backupCodes.filter((code) => !code.usedAt)
+				.length,
+		};
+	},
+
+	setup: async (userId: string) => {
+		const user = await findUserWithSecrets(userId);
+		if (user.mfa.enabled) {
+			throw new BadRequestException(
+				"Two-factor authentication is already enabled",
+			);
+		}
+
+		const secret = speakeasy.generateSecret({ name: Env.APP_NAME });
+		user.mfa.pendingSecret = secret.base32;
+		await user.save();
+
+		const otpauthUrl = speakeasy.otpauthURL({
+			secret: secret.base32,
+			encoding: "base32",
+			label: user.email,
+			issuer: Env.APP_NAME,
+		});
+		const qrCodeDataUrl = await qrcode.toDataURL(otpauthUrl);
+
+		return { secret: secret.base32, otpauthUrl, qrCodeDataUrl };
+	},
+
+	confirmSetup: async (userId: string, code: string, ipAddress?: string) => {
+		const user = await findUserWithSecrets(userId);
+		if (user.mfa.enabled) {
+			throw new BadRequestException(
+				"Two-factor authentication is already enabled",
+			);
+		}
+		if (!user.mfa.pendingSecret) {
+			throw new BadRequestException(
+				"Start two-factor setup before confirming it",
+			);
+		}
+
+		await assertValidCode(user, code, { pendingSetup: true, ipAddress });
+
+		user.mfa.enabled = true;
+		user.mfa.enabledAt = new Date();
+		user.mfa.secret = user.mfa.pendingSecret;
+		user.mfa.pendingSecret = undefined;
+		const backupCodes = await generateBackupCodes(user);
+		await user.save();
+		auditService.record({
+			event: AuditEventEnum.MFA_ENABLE,
+			actorId: user._id,
+		});
+
+		void sendTemplate(
+			"mfaEnabled",
+			{ name: user.name, enabledAt: user.mfa.enabledAt },
+			{ to: user.email, timeZone: user.timezone },
+		).catch((error) => {
+			logger.error("Failed to send MFA enabled email", { error });
+		});
+
+		return { backupCodes };
+	},
+
+	disable: async (userId: string, code: string, ipAddress?: string) => {
+		const user = await findUserWithSecrets(userId);
+		if (!user.mfa.enabled) {
+			throw new BadRequestException("Two-factor authentication is not enabled");
+		}
+
+		await assertValidCode(user, code, { ipAddress });
+
+		user.mfa = { enabled: false, backupCodes: [] };
+		await user.save();
+		auditService.record({
+			event: AuditEventEnum.MFA_DISABLE,
+			actorId: user._id,
+		});
+	},
+
+	/**
+	 * Turn MFA off without a code, for users who lost their authenticator
+	 * The caller is responsible for authorizing and auditing this.
+	 */
+	reset: async (userId: string) => {
+		const user = await findUserWithSecrets(userId);
+		if (!user.mfa.enabled && !user.mfa.pendingSecret) {
+			throw new BadRequestException("Two-factor authentication is not enabled");
+		}
+
+		user.mfa = { enabled: false, backupCodes: [] };
+		await user.save();
+
+		return { user };
+	},
+
+	regenerateBackupCodes: async (
+		userId: string,
+		code: string,
+		ipAddress?: string,
+	) => {
+		const user = await findUserWithSecrets(userId);
+		if (!user.mfa.enabled) {
+			throw new BadRequestException("Two-factor authentication is not enabled");
+		}
+
+		await assertValidCode(user, code, { ipAddress });
+
+		const backupCodes = await generateBackupCodes(user);
+		await user.save();
+		auditService.record({
+			event: AuditEventEnum.MFA_BACKUP_CODES_REGENERATE,
+			actorId: user._id,
+		});
+
+		return { backupCodes };
+	},
+
+	/**
+	 * Second login step: exchange the challenge token and a code for a session
+	 */
+	verifyLogin: async ({ mfaToken, code, ...context }: VerifyMfaLoginDto) => {
+		const { payload } = verifyJwtToken<MfaChallengeTPayload>(mfaToken, {
+			secret: mfaChallengeSignOptions.secret,
+			audience: "mfa",
+		});
+		if (!payload?.jti) {
+			throw expiredChallenge();
+		}
+
+		const user = await findUserWithSecrets(String(payload.userId));
+		if (!user.mfa.enabled) {
+			throw new AuthenticationException(
+				"Two-factor authentication is not enabled",
+				ErrorCodeEnum.AUTH_INVALID_TOKEN,
+			);
+		}
+
+		authService.assertAccountActive(user);
+		await assertValidCode(user, code, {
+			allowBackupCode: true,
+			ipAddress: context.ipAddress,
+		});
+		await consumeChallenge(payload.jti);
+		auditService.record({
+			event: AuditEventEnum.MFA_VERIFY,
+			actorId: user._id,
+		});
+
+		const tokens = await authService.createLoginSession(user, context);
+
+		return { user, ...tokens };
+	},
+};
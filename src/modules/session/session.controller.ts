@@ -0,0 +1,44 @@
+import type { Response } from "express";
+import type { AuthenticatedRequest } from "../../common/interface/interface";
+import { parseListQuery } from "../../common/utils/pagination";
+import {
+	type sessionIdParamsSchema,
+	sessionListSpec,
+} from "../../common/validators/session.validator";
+import type { AuthenticatedValidatedRequest } from "../../common/validators/validator";
+import { HTTPSTATUS } from "../../configs/http.config";
+import { sessionService } from "./session.service";
+
+export const sessionController = {
+	getAll: async (req: AuthenticatedRequest, res: Response) => {
+		const page = await sessionService.getUserSessions(
+			req.user.id,
+			req.sessionId,
+			parseListQuery(req.query, sessionListSpec),
+		);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Sessions retrieved successfully",
+			...page,
+		});
+	},
+
+	revoke: async (
+		req: AuthenticatedValidatedRequest<{
+			params: typeof sessionIdParamsSchema;
+		}>,
+		res: Response,
+	) => {
+		await sessionService.revokeUserSession(req.user.id, req.params.id);
+
+		res.status(HTTPSTATUS.OK).json({ message: "Session revoked successfully" });
+	},
+
+	revokeOthers: async (req: AuthenticatedRequest, res: Response) => {
+		await sessionService.revokeOtherSessions(req.user.id, req.sessionId);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "All other sessions revoked successfully",
+		});
+	},
+};
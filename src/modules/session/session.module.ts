@@ -0,0 +1,16 @@
+import "./session.openapi";
+import { defineModule } from "../../common/utils/module-loader";
+import { sessionRoutes } from "./session.route";
+import { sessionService } from "./session.service";
+
+export const sessionModule = defineModule({
+	name: "sessions",
+	router: sessionRoutes,
+	personalData: {
+		export: sessionService.exportUserSessions,
+		erase: sessionService.deleteUserSessions,
+	},
+});
+
+export { sessionRoutes } from "./session.route";
+export { sessionService } from "./session.service";
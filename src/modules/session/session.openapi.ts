@@ -0,0 +1,55 @@
+import { ErrorCodeEnum } from "../../common/enums/error-code.enum";
+import { openApiRegistry } from "../../common/openapi/registry";
+import {
+	listQuerySchema,
+	messageResponseSchema,
+	pageSchema,
+	sessionResponseSchema,
+} from "../../common/openapi/schemas";
+import {
+	sessionIdParamsSchema,
+	sessionListSpec,
+} from "../../common/validators/session.validator";
+import { apiPath } from "../../configs/api.config";
+
+openApiRegistry.registerRoutes(
+	{ basePath: apiPath("sessions"), tag: "Sessions" },
+	[
+		{
+			method: "get",
+			path: "/",
+			operationId: "listSessions",
+			summary: "List active sessions of the current user",
+			auth: true,
+			request: { query: listQuerySchema(sessionListSpec) },
+			responses: {
+				200: {
+					description: "One page of active sessions",
+					schema: pageSchema(sessionResponseSchema),
+				},
+			},
+		},
+		{
+			method: "delete",
+			path: "/",
+			operationId: "revokeOtherSessions",
+			summary: "Revoke every session except the current one",
+			auth: true,
+			responses: {
+				200: { description: "Sessions revoked", schema: messageResponseSchema },
+			},
+		},
+		{
+			method: "delete",
+			path: "/:id",
+			operationId: "revokeSession",
+			summary: "Revoke one session",
+			auth: true,
+			request: { params: sessionIdParamsSchema },
+			responses: {
+				200: { description: "Session revoked", schema: messageResponseSchema },
+			},
+			errors: { 404: [ErrorCodeEnum.USR_404] },
+		},
+	],
+);
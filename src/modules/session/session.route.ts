@@ -0,0 +1,21 @@
+import { Router } from "express";
+import { sessionIdParamsSchema } from "../../common/validators/session.validator";
+import { validate } from "../../common/validators/validator";
+import { authenticatedHandler } from "../../middlewares/asyncHandler.middleware";
+import { authenticate } from "../../middlewares/authenticate.middleware";
+import { rateLimit } from "../../middlewares/rateLimit.middleware";
+import { sessionController } from "./session.controller";
+
+const router = Router();
+
+router.use(authenticate, rateLimit("perUser"));
+
+router.get("/", authenticatedHandler(sessionController.getAll));
+router.delete("/", authenticatedHandler(sessionController.revokeOthers));
+router.delete(
+	"/:id",
+	validate({ params: sessionIdParamsSchema }),
+	authenticatedHandler(sessionController.revoke),
+);
+
+export { router as sessionRoutes };
@@ -0,0 +1,313 @@
+import type { Types } from "mongoose";
+import { v4 as uuidv4 } from "uuid";
+import {
+	AuditEventEnum,
+	AuditOutcomeEnum,
+} from "../../common/enums/audit-event.enum";
+import { ErrorCodeEnum } from "../../common/enums/error-code.enum";
+import {
+	AuthenticationException,
+	NotFoundException,
+} from "../../common/utils/app-error";
+import { hashToken } from "../../common/utils/crypto";
+import {
+	type RefreshTPayload,
+	refreshTokenSignOptions,
+	signJwtToken,
+	verifyJwtToken,
+} from "../../common/utils/jwt";
+import {
+	type ListQuery,
+	mapPage,
+	paginate,
+} from "../../common/utils/pagination";
+import { parseUserAgent } from "../../common/utils/user-agent";
+import {
+	RefreshTokenModel,
+	type SessionDocument,
+	SessionModel,
+} from "../../database/models/model";
+import { auditService } from "../audit/audit.service";
+
+type CreateSessionInput = {
+	userId: Types.ObjectId;
+	userAgent?: string;
+	ipAddress?: string;
+};
+
+// Avoid a write on every request just to bump lastSeenAt
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+const isSessionActive = (session: SessionDocument | null) =>
+	!!session && !session.revokedAt && session.expiresAt.getTime() > Date.now();
+
+const invalidRefreshToken = () =>
+	new AuthenticationException(
+		"Invalid refresh token",
+		ErrorCodeEnum.AUTH_INVALID_TOKEN,
+	);
+
+/**
+ * Sign a refresh token for the session and store its hash in the session's family
+ */
+const issueRefreshToken = async (session: SessionDocument) => {
+	const refreshToken = signJwtToken(
+		{ sessionId: session._id, family: session.tokenFamily, jti: uuidv4() },
+		refreshTokenSignOptions,
+	);
+
+	await RefreshTokenModel.create({
+		tokenHash: hashToken(refreshToken),
+		family: session.tokenFamily,
+		userId: session.userId,
+		sessionId: session._id,
+		expiresAt: session.expiresAt,
+	});
+
+	return refreshToken;
+};
+
+const revokeFamily = async (family: string) => {
+	const revokedAt = new Date();
+
+	await Promise.all([
+		SessionModel.updateMany(
+			{ tokenFamily: family, revokedAt: { $exists: false } },
+			{ revokedAt },
+		),
+		RefreshTokenModel.updateMany(
+			{ family, revokedAt: { $exists: false } },
+			{ revokedAt },
+		),
+	]);
+};
+
+export const sessionService = {
+	createSession: async ({
+		userId,
+		userAgent,
+		ipAddress,
+	}: CreateSessionInput) => {
+		const device = parseUserAgent(userAgent);
+
+		// Only alert on a new device when the user has signed in before
+		const [hasSessions, knownDevice] = await Promise.all([
+			SessionModel.exists({ userId }),
+			SessionModel.exists({
+				userId,
+				"device.browser": device.browser,
+				"device.os": device.os,
+			}),
+		]);
+
+		const session = await SessionModel.create({
+			userId,
+			userAgent,
+			device,
+			ipAddress,
+			tokenFamily: uuidv4(),
+		});
+		const refreshToken = await issueRefreshToken(session);
+
+		return {
+			session,
+			refreshToken,
+			isNewDevice: !!hasSessions && !knownDevice,
+		};
+	},
+
+	/**
+	 * Exchange a refresh token for a new one in the same family
+	 * A token that has already been rotated is treated as stolen: the whole
+	 * family is revoked and the request fails
+	 */
+	rotateRefreshToken: async (refreshToken: string) => {
+		const { payload } = verifyJwtToken<RefreshTPayload>(refreshToken, {
+			secret: refreshTokenSignOptions.secret,
+		});
+		if (!payload) {
+			throw invalidRefreshToken();
+		}
+
+		const record = await RefreshTokenModel.findOne({
+			tokenHash: hashToken(refreshToken),
+		});
+		if (!record) {
+			throw invalidRefreshToken();
+		}
+
+		if (record.rotatedAt) {
+			await revokeFamily(record.family);
+			auditService.record({
+				event: AuditEventEnum.TOKEN_REFRESH,
+				outcome: AuditOutcomeEnum.FAILURE,
+				targetId: record.userId,
+				details: {
+					reason: "TOKEN_REUSE",
+					sessionId: String(record.sessionId),
+				},
+			});
+			throw new AuthenticationException(
+				"Refresh token reuse detected. All sessions for this login have been revoked",
+				ErrorCodeEnum.AUTH_INVALID_TOKEN,
+			);
+		}
+		if (record.revokedAt) {
+			throw invalidRefreshToken();
+		}
+
+		// Claim the token atomically so concurrent requests cannot both rotate it
+		const claimed = await RefreshTokenModel.findOneAndUpdate(
+			{ _id: record._id, rotatedAt: { $exists: false } },
+			{ rotatedAt: new Date() },
+		);
+		if (!claimed) {
+			await revokeFamily(record.family);
+			throw invalidRefreshToken();
+		}
+
+		const session = await SessionModel.findById(record.sessionId);
+		if (!session || !isSessionActive(session)) {
+			throw new AuthenticationException(
+				"Your session has expired. Please log in again",
+				ErrorCodeEnum.AUTH_TOKEN_EXPIRED,
+			);
+		}
+
+		session.lastSeenAt = new Date();
+		await session.save();
+
+		return { session, refreshToken: await issueRefreshToken(session) };
+	},
+
+	/**
+	 * Load the session behind an access token, or null if it was revoked or expired
+	 */
+	findActiveSession: async (sessionId: Types.ObjectId | string) => {
+		const session = await SessionModel.findById(sessionId);
+		if (!session || !isSessionActive(session)) return null;
+
+		if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+			session.lastSeenAt = new Date();
+			await session.save();
+		}
+
+		return session;
+	},
+
+	getUserSessions: async (
+		userId: Types.ObjectId | string,
+		currentSessionId: Types.ObjectId | string | undefined,
+		query: ListQuery,
+	) => {
+		const page = await paginate(SessionModel, query, {
+			userId,
+			revokedAt: { $exists: false },
+			expiresAt: { $gt: new Date() },
+		});
+
+		return mapPage(page, (session) => ({
+			...session.toJSON(),
+			isCurrent: session._id.toString() === currentSessionId?.toString(),
+		}));
+	},
+
+	revokeUserSession: async (
+		userId: Types.ObjectId | string,
+		sessionId: string,
+	) => {
+		const session = await SessionModel.findOne({
+			_id: sessionId,
+			userId,
+			revokedAt: { $exists: false },
+		});
+		if (!session) {
+			throw new NotFoundException("Session not found");
+		}
+
+		await revokeFamily(session.tokenFamily);
+		auditService.record({
+			event: AuditEventEnum.SESSION_REVOKE,
+			actorId: userId,
+			details: { sessionId },
+		});
+	},
+
+	/**
+	 * "Sign out everywhere else" on behalf of the user
+	 */
+	revokeOtherSessions: async (
+		userId: Types.ObjectId | string,
+		currentSessionId?: Types.ObjectId | string,
+	) => {
+		await sessionService.revokeAllSessions(userId, currentSessionId);
+		auditService.record({
+			event: AuditEventEnum.SESSION_REVOKE_OTHERS,
+			actorId: userId,
+		});
+	},
+
+	/**
+	 * Resolve the session a refresh token belongs to without rotating it
+	 */
+	findSessionByRefreshToken: async (refreshToken: string) => {
+		const { payload } = verifyJwtToken<RefreshTPayload>(refreshToken, {
+			secret: refreshTokenSignOptions.secret,
+		});
+		if (!payload) return null;
+
+		const session = await SessionModel.findById(payload.sessionId);
+		return isSessionActive(session) ? session : null;
+	},
+
+	revokeSession: async (sessionId: Types.ObjectId | string) => {
+		const session = await SessionModel.findById(sessionId);
+		if (session) {
+			await revokeFamily(session.tokenFamily);
+		}
+	},
+
+	/**
+	 * Log out everywhere, optionally keeping the caller's own session
+	 */
+	revokeAllSessions: async (
+		userId: Types.ObjectId | string,
+		exceptSessionId?: Types.ObjectId | string,
+	) => {
+		const revokedAt = new Date();
+		const sessionFilter = {
+			userId,
+			revokedAt: { $exists: false },
+			...(exceptSessionId && { _id: { $ne: exceptSessionId } }),
+		};
+
+		const families = await SessionModel.distinct("tokenFamily", sessionFilter);
+
+		await Promise.all([
+			SessionModel.updateMany(sessionFilter, { revokedAt }),
+			RefreshTokenModel.updateMany(
+				{ family: { $in: families }, revokedAt: { $exists: false } },
+				{ revokedAt },
+			),
+		]);
+	},
+
+	isSessionActive,
+
+	/**
+	 * Every session the user still has on record, including revoked ones
+	 */
+	exportUserSessions: async (userId: Types.ObjectId | string) => {
+		const sessions = await SessionModel.find({ userId }).sort({
+			createdAt: -1,
+		});
+		return sessions.map((session) => session.toJSON());
+	},
+
+	deleteUserSessions: async (userId: Types.ObjectId | string) => {
+		await Promise.all([
+			SessionModel.deleteMany({ userId }),
+			RefreshTokenModel.deleteMany({ userId }),
+		]);
+	},
+};
@@ -0,0 +1,106 @@
+import { logger } from "../../common/utils/logger";
+import { Env } from "../../configs/env.config";
+import { type UserDocument, UserModel } from "../../database/models/model";
+import { sendTemplate } from "../../mailers/mailer";
+import { personalDataService } from "./personal-data.service";
+
+// A claim older than this is assumed to belong to a crashed instance
+const CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
+
+let sweepTimer: NodeJS.Timeout | undefined;
+let activeSweep: Promise<number> | undefined;
+
+/**
+ * Atomically take one due account so concurrent instances never erase the same user
+ */
+const claimDueAccount = () => {
+	const now = new Date();
+
+	return UserModel.findOneAndUpdate(
+		{
+			"deletion.scheduledFor": { $lte: now },
+			$or: [
+				{ "deletion.claimedAt": { $exists: false } },
+				{
+					"deletion.claimedAt": {
+						$lt: new Date(now.getTime() - CLAIM_TIMEOUT_MS),
+					},
+				},
+			],
+		},
+		{ "deletion.claimedAt": now },
+		{ new: true },
+	);
+};
+
+const eraseAccount = async (user: UserDocument) => {
+	const { name, email, timezone } = user;
+
+	await personalDataService.eraseUser(user._id);
+	await UserModel.deleteOne({ _id: user._id });
+
+	logger.info("Account deleted", { userId: String(user._id) });
+
+	void sendTemplate(
+		"accountDeleted",
+		{ name, deletedAt: new Date() },
+		{ to: email, timeZone: timezone },
+	).catch((error) => {
+		logger.error("Failed to send account deleted email", { error });
+	});
+};
+
+export const accountDeletionService = {
+	/**
+	 * Erase every account whose grace period has ended
+	 * A failed account keeps its claim and is retried once the claim times out.
+	 */
+	sweep: async () => {
+		let deleted = 0;
+
+		for (
+			let user = await claimDueAccount();
+			user;
+			user = await claimDueAccount()
+		) {
+			try {
+				await eraseAccount(user);
+				deleted++;
+			} catch (error) {
+				logger.error("Failed to delete account", {
+					userId: String(user._id),
+					error,
+				});
+			}
+		}
+		return deleted;
+	},
+
+	start: () => {
+		if (sweepTimer) return;
+
+		sweepTimer = setInterval(() => {
+			if (activeSweep) return;
+
+			activeSweep = accountDeletionService
+				.sweep()
+				.catch((error) => {
+					logger.error("Account deletion sweep failed", { error });
+					return 0;
+				})
+				.finally(() => {
+					activeSweep = undefined;
+				});
+		}, Env.ACCOUNT_DELETION.SWEEP_INTERVAL);
+		sweepTimer.unref();
+	},
+
+	/**
+	 * Stop scheduling sweeps and wait for a running one to finish
+	 */
+	stop: async () => {
+		clearInterval(sweepTimer);
+		sweepTimer = undefined;
+		await activeSweep;
+	},
+};
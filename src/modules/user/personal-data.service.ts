@@ -0,0 +1,47 @@
+import type { Types } from "mongoose";
+
+/**
+ * A module's share of a user's personal data
+ * `export` returns a JSON-serializable snapshot without secrets or hashes;
+ * `erase` deletes or anonymises everything the module stores about the user.
+ */
+export type PersonalDataHandler = {
+	export?: (userId: Types.ObjectId) => Promise<unknown>;
+	erase?: (userId: Types.ObjectId) => Promise<void>;
+};
+
+const handlers = new Map<string, PersonalDataHandler>();
+
+export const personalDataService = {
+	register: (name: string, handler: PersonalDataHandler) => {
+		handlers.set(name, handler);
+	},
+
+	unregister: (name: string) => {
+		handlers.delete(name);
+	},
+
+	/**
+	 * Collect every module's export, keyed by module name
+	 * Fails as a whole rather than returning a partial archive
+	 */
+	exportUser: async (userId: Types.ObjectId) => {
+		const data: Record<string, unknown> = {};
+
+		for (const [name, handler] of handlers) {
+			if (handler.export) {
+				data[name] = await handler.export(userId);
+			}
+		}
+		return data;
+	},
+
+	/**
+	 * Run every module's erase handler; the caller deletes the user document last
+	 */
+	eraseUser: async (userId: Types.ObjectId) => {
+		for (const handler of handlers.values()) {
+			await handler.erase?.(userId);
+		}
+	},
+};
@@ -0,0 +1,113 @@
+import type { Response } from "express";
+import type { AuthenticatedRequest } from "../../common/interface/interface";
+import { serializeUser } from "../../common/serializers/user.serializer";
+import { mapPage, parseListQuery } from "../../common/utils/pagination";
+import {
+	type adminActionSchema,
+	type assignRolesSchema,
+	type userIdParamsSchema,
+	userListSpec,
+} from "../../common/validators/user.validator";
+import type { AuthenticatedValidatedRequest } from "../../common/validators/validator";
+import { HTTPSTATUS } from "../../configs/http.config";
+import { userAdminService } from "./user-admin.service";
+
+type AdminActionRequest = AuthenticatedValidatedRequest<{
+	params: typeof userIdParamsSchema;
+	body: typeof adminActionSchema;
+}>;
+
+type AssignRolesRequest = AuthenticatedValidatedRequest<{
+	params: typeof userIdParamsSchema;
+	body: typeof assignRolesSchema;
+}>;
+
+const actionOf = (req: AdminActionRequest | AssignRolesRequest) => ({
+	actorId: req.user.id,
+	actorRoles: req.user.roles,
+	reason: req.body.reason,
+});
+
+export const userAdminController = {
+	search: async (req: AuthenticatedRequest, res: Response) => {
+		const page = await userAdminService.search(
+			parseListQuery(req.query, userListSpec),
+		);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Users retrieved successfully",
+			...mapPage(page, serializeUser),
+		});
+	},
+
+	disable: async (req: AdminActionRequest, res: Response) => {
+		const { user } = await userAdminService.disable(
+			req.params.userId,
+			actionOf(req),
+		);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Account disabled successfully",
+			user: serializeUser(user),
+		});
+	},
+
+	enable: async (req: AdminActionRequest, res: Response) => {
+		const { user } = await userAdminService.enable(
+			req.params.userId,
+			actionOf(req),
+		);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Account enabled successfully",
+			user: serializeUser(user),
+		});
+	},
+
+	revokeSessions: async (req: AdminActionRequest, res: Response) => {
+		await userAdminService.revokeSessions(req.params.userId, actionOf(req));
+
+		res
+			.status(HTTPSTATUS.OK)
+			.json({ message: "All sessions revoked successfully" });
+	},
+
+	resetMfa: async (req: AdminActionRequest, res: Response) => {
+		const { user } = await userAdminService.resetMfa(
+			req.params.userId,
+			actionOf(req),
+		);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Two-factor authentication reset successfully",
+			user: serializeUser(user),
+		});
+	},
+
+	sendPasswordReset: async (req: AdminActionRequest, res: Response) => {
+		await userAdminService.sendPasswordReset(req.params.userId, actionOf(req));
+
+		res.status(HTTPSTATUS.OK).json({ message: "Password reset email sent" });
+	},
+
+	assignRoles: async (req: AssignRolesRequest, res: Response) => {
+		const { user } = await userAdminService.assignRoles(
+			req.params.userId,
+			req.body.roles,
+			actionOf(req),
+		);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Roles updated successfully",
+			user: serializeUser(user),
+		});
+	},
+
+	unlock: async (req: AdminActionRequest, res: Response) => {
+		await userAdminService.unlockAccount(req.params.userId, actionOf(req));
+
+		res
+			.status(HTTPSTATUS.OK)
+			.json({ message: "Account unlocked successfully" });
+	},
+};
@@ -0,0 +1,188 @@
+import {
+	AuditEventEnum,
+	type AuditEventEnumType,
+} from "../../common/enums/audit-event.enum";
+import { ErrorCodeEnum } from "../../common/enums/error-code.enum";
+import type { RoleType } from "../../common/enums/role.enum";
+import { UserStatusEnum } from "../../common/enums/user-status.enum";
+import {
+	BadRequestException,
+	ForbiddenException,
+	NotFoundException,
+} from "../../common/utils/app-error";
+import { type ListQuery, paginate } from "../../common/utils/pagination";
+import { permissionsBeyond } from "../../configs/roles.config";
+import { type UserDocument, UserModel } from "../../database/models/model";
+import { auditService } from "../audit/audit.service";
+import { authService } from "../auth/auth.service";
+import { lockoutService } from "../auth/lockout.service";
+import { mfaService } from "../mfa/mfa.service";
+import { sessionService } from "../session/session.service";
+
+/**
+ * Who is acting and why; recorded with every admin action
+ */
+type AdminAction = {
+	actorId: string;
+	actorRoles: readonly RoleType[];
+	reason: string;
+};
+
+const findUser = async (userId: string) => {
+	const user = await UserModel.findById(userId);
+	if (!user) {
+		throw new NotFoundException(
+			"User not found",
+			ErrorCodeEnum.AUTH_USER_NOT_FOUND,
+		);
+	}
+	return user;
+};
+
+/**
+ * Reject acting on roles that grant permissions the actor lacks,
+ * so support cannot reset an admin's MFA or password
+ */
+const assertCanManage = (
+	roles: readonly RoleType[],
+	{ actorRoles }: AdminAction,
+) => {
+	const missingPermissions = permissionsBeyond(roles, actorRoles);
+	if (missingPermissions.length) {
+		throw new ForbiddenException(
+			"You cannot manage a user with permissions you do not have",
+			ErrorCodeEnum.AUTH_INSUFFICIENT_PERMISSIONS,
+			{ missingPermissions },
+		);
+	}
+};
+
+/**
+ * Load the target of an admin action, checking the actor may manage it
+ */
+const findManagedUser = async (userId: string, action: AdminAction) => {
+	const user = await findUser(userId);
+	assertCanManage(user.roles, action);
+	return user;
+};
+
+const audit = (
+	event: AuditEventEnumType,
+	user: UserDocument,
+	{ actorId, reason }: AdminAction,
+	details?: Record<string, unknown>,
+) =>
+	auditService.record({
+		event,
+		actorId,
+		targetId: user._id,
+		details: { reason, ...details },
+	});
+
+export const userAdminService = {
+	search: (query: ListQuery) => paginate(UserModel, query),
+
+	/**
+	 * Block the account and sign it out everywhere
+	 * The JWT strategy rejects disabled users with AUTH_ACCOUNT_DISABLED.
+	 */
+	disable: async (userId: string, action: AdminAction) => {
+		if (userId === action.actorId) {
+			throw new BadRequestException("You cannot disable your own account");
+		}
+
+		const user = await findManagedUser(userId, action);
+		if (user.status === UserStatusEnum.DISABLED) {
+			throw new BadRequestException("Account is already disabled");
+		}
+
+		user.status = UserStatusEnum.DISABLED;
+		await user.save();
+		await sessionService.revokeAllSessions(user._id);
+		audit(AuditEventEnum.ACCOUNT_DISABLE, user, action);
+
+		return { user };
+	},
+
+	enable: async (userId: string, action: AdminAction) => {
+		const user = await findManagedUser(userId, action);
+		if (user.status === UserStatusEnum.ACTIVE) {
+			throw new BadRequestException("Account is already active");
+		}
+
+		user.status = UserStatusEnum.ACTIVE;
+		await user.save();
+		audit(AuditEventEnum.ACCOUNT_ENABLE, user, action);
+
+		return { user };
+	},
+
+	revokeSessions: async (userId: string, action: AdminAction) => {
+		const user = await findManagedUser(userId, action);
+
+		await sessionService.revokeAllSessions(user._id);
+		audit(AuditEventEnum.SESSION_REVOKE_ALL, user, action);
+
+		return { user };
+	},
+
+	resetMfa: async (userId: string, action: AdminAction) => {
+		await findManagedUser(userId, action);
+		const { user } = await mfaService.reset(userId);
+		audit(AuditEventEnum.MFA_RESET, user, action);
+
+		return { user };
+	},
+
+	sendPasswordReset: async (userId: string, action: AdminAction) => {
+		const user = await findManagedUser(userId, action);
+
+		await authService.sendPasswordResetEmail(user);
+		audit(AuditEventEnum.PASSWORD_RESET_REQUEST, user, action);
+
+		return { user };
+	},
+
+	/**
+	 * Replace the user's roles; permissions follow on their next request
+	 * Nobody can change their own roles, so an admin cannot lock themselves out.
+	 */
+	assignRoles: async (
+		userId: string,
+		roles: RoleType[],
+		action: AdminAction,
+	) => {
+		if (userId === action.actorId) {
+			throw new BadRequestException("You cannot change your own roles");
+		}
+
+		const user = await findManagedUser(userId, action);
+		// Nor can anyone grant what they do not hold themselves
+		assertCanManage(roles, action);
+		const previous = [...user.roles];
+		if (
+			previous.length === roles.length &&
+			roles.every((role) => previous.includes(role))
+		) {
+			throw new BadRequestException("The user already has these roles");
+		}
+
+		user.roles = roles;
+		await user.save();
+		audit(AuditEventEnum.ROLE_CHANGE, user, action, {
+			from: previous,
+			to: roles,
+		});
+
+		return { user };
+	},
+
+	unlockAccount: async (userId: string, action: AdminAction) => {
+		const user = await findManagedUser(userId, action);
+
+		await lockoutService.unlockAccount(user._id);
+		audit(AuditEventEnum.ACCOUNT_UNLOCK, user, action);
+
+		return { user };
+	},
+};
@@ -0,0 +1,115 @@
+import type { Response } from "express";
+import type { AuthenticatedRequest } from "../../common/interface/interface";
+import { serializeUser } from "../../common/serializers/user.serializer";
+import { clearAuthenticationCookies } from "../../common/utils/cookie";
+import type {
+	changeEmailSchema,
+	changePasswordSchema,
+	deleteAccountSchema,
+	emailChangeCodeSchema,
+	updateProfileSchema,
+} from "../../common/validators/user.validator";
+import type {
+	AuthenticatedValidatedRequest,
+	ValidatedRequest,
+} from "../../common/validators/validator";
+import { HTTPSTATUS } from "../../configs/http.config";
+import { userService } from "./user.service";
+
+export const userController = {
+	getMe: async (req: AuthenticatedRequest, res: Response) => {
+		const { user } = await userService.getProfile(req.user.id);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Profile retrieved successfully",
+			user: serializeUser(user),
+		});
+	},
+
+	updateMe: async (
+		req: AuthenticatedValidatedRequest<{ body: typeof updateProfileSchema }>,
+		res: Response,
+	) => {
+		const { user } = await userService.updateProfile(req.user.id, req.body);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Profile updated successfully",
+			user: serializeUser(user),
+		});
+	},
+
+	changePassword: async (
+		req: AuthenticatedValidatedRequest<{ body: typeof changePasswordSchema }>,
+		res: Response,
+	) => {
+		await userService.changePassword(
+			req.user.id,
+			req.sessionId,
+			req.body,
+			req.ip,
+		);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Password changed successfully. Other sessions were signed out",
+		});
+	},
+
+	requestEmailChange: async (
+		req: AuthenticatedValidatedRequest<{ body: typeof changeEmailSchema }>,
+		res: Response,
+	) => {
+		await userService.requestEmailChange(req.user.id, req.body, req.ip);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Check your new email address to confirm the change",
+		});
+	},
+
+	confirmEmailChange: async (
+		req: ValidatedRequest<{ body: typeof emailChangeCodeSchema }>,
+		res: Response,
+	) => {
+		const { user } = await userService.confirmEmailChange(req.body.code);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Email address changed successfully",
+			user: serializeUser(user),
+		});
+	},
+
+	revertEmailChange: async (
+		req: ValidatedRequest<{ body: typeof emailChangeCodeSchema }>,
+		res: Response,
+	) => {
+		await userService.revertEmailChange(req.body.code);
+
+		res.status(HTTPSTATUS.OK).json({
+			message: "Email change reverted. All sessions were signed out",
+		});
+	},
+
+	exportData: async (req: AuthenticatedRequest, res: Response) => {
+		const archive = await userService.exportData(req.user.id);
+
+		res
+			.status(HTTPSTATUS.OK)
+			.attachment(`account-export-${archive.userId}.json`)
+			.json(archive);
+	},
+
+	deleteMe: async (
+		req: AuthenticatedValidatedRequest<{ body: typeof deleteAccountSchema }>,
+		res: Response,
+	) => {
+		const { user } = await userService.requestDeletion(
+			req.user.id,
+			req.body.password,
+			req.ip,
+		);
+
+		clearAuthenticationCookies(res).status(HTTPSTATUS.ACCEPTED).json({
+			message: "Account scheduled for deletion. Log in before then to cancel",
+			deletionScheduledFor: user.deletion?.scheduledFor,
+		});
+	},
+};
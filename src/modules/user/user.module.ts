@@ -0,0 +1,29 @@
+import "./user.openapi";
+import { serializeUser } from "../../common/serializers/user.serializer";
+import { defineModule } from "../../common/utils/module-loader";
+import { accountDeletionService } from "./account-deletion.service";
+import { personalDataService } from "./personal-data.service";
+import { userRoutes } from "./user.route";
+import { userService } from "./user.service";
+
+export const userModule = defineModule({
+	name: "users",
+	router: userRoutes,
+	personalData: {
+		export: async (userId) => {
+			const { user } = await userService.getProfile(String(userId));
+			return serializeUser(user);
+		},
+	},
+	onModuleMount: ({ name, personalData }) => {
+		if (personalData) {
+			personalDataService.register(name, personalData);
+		}
+	},
+	init: accountDeletionService.start,
+	shutdown: accountDeletionService.stop,
+});
+
+export { userRoutes } from "./user.route";
+export { userService } from "./user.service";
+export { userAdminService } from "./user-admin.service";
@@ -0,0 +1,284 @@
+import { type ZodTypeAny, z } from "zod";
+import { ErrorCodeEnum } from "../../common/enums/error-code.enum";
+import {
+	PermissionEnum,
+	type PermissionType,
+} from "../../common/enums/role.enum";
+import { openApiRegistry, type RouteDoc } from "../../common/openapi/registry";
+import {
+	listQuerySchema,
+	messageResponseSchema,
+	pageSchema,
+	userResponseSchema,
+	withMessage,
+} from "../../common/openapi/schemas";
+import {
+	adminActionSchema,
+	assignRolesSchema,
+	changeEmailSchema,
+	changePasswordSchema,
+	deleteAccountSchema,
+	emailChangeCodeSchema,
+	updateProfileSchema,
+	userIdParamsSchema,
+	userListSpec,
+} from "../../common/validators/user.validator";
+import { apiPath } from "../../configs/api.config";
+
+const CODE_ERRORS = {
+	400: [ErrorCodeEnum.AUTH_TOKEN_EXPIRED],
+	404: [ErrorCodeEnum.AUTH_TOKEN_NOT_FOUND, ErrorCodeEnum.AUTH_USER_NOT_FOUND],
+	409: [ErrorCodeEnum.AUTH_EMAIL_ALREADY_EXISTS],
+};
+
+type AdminActionDoc = {
+	path: string;
+	method?: "post" | "put";
+	// Defaults to `{ reason }`
+	body?: ZodTypeAny;
+	operationId: string;
+	summary: string;
+	permission: PermissionType;
+	returnsUser?: boolean;
+	errors?: RouteDoc["errors"];
+};
+
+// Support/admin actions share a body, a permission check and error set
+const adminAction = ({
+	method = "post",
+	body = adminActionSchema,
+	permission,
+	returnsUser,
+	errors,
+	...doc
+}: AdminActionDoc): RouteDoc[] => [
+	{
+		...doc,
+		method,
+		description: `Requires the \`${permission}\` permission. The \`reason\` is recorded in the audit log.`,
+		auth: true,
+		request: { params: userIdParamsSchema, body },
+		responses: {
+			200: {
+				description: "Done",
+				schema: returnsUser
+					? withMessage({ user: userResponseSchema })
+					: messageResponseSchema,
+			},
+		},
+		errors: {
+			403: [ErrorCodeEnum.AUTH_INSUFFICIENT_PERMISSIONS],
+			404: [ErrorCodeEnum.AUTH_USER_NOT_FOUND],
+			...errors,
+		},
+	},
+];
+
+openApiRegistry.registerRoutes({ basePath: apiPath("users"), tag: "Users" }, [
+	{
+		method: "get",
+		path: "/me",
+		operationId: "getProfile",
+		summary: "Get the current user's profile",
+		auth: true,
+		responses: {
+			200: {
+				description: "Current user",
+				schema: withMessage({ user: userResponseSchema }),
+			},
+		},
+		errors: { 404: [ErrorCodeEnum.AUTH_USER_NOT_FOUND] },
+	},
+	{
+		method: "patch",
+		path: "/me",
+		operationId: "updateProfile",
+		summary: "Update the current user's profile",
+		description:
+			"Only the fields sent are changed. Send `null` to clear `avatarUrl`, `timezone` or `locale`.",
+		auth: true,
+		request: { body: updateProfileSchema },
+		responses: {
+			200: {
+				description: "Profile updated",
+				schema: withMessage({ user: userResponseSchema }),
+			},
+		},
+		errors: { 404: [ErrorCodeEnum.AUTH_USER_NOT_FOUND] },
+	},
+	{
+		method: "delete",
+		path: "/me",
+		operationId: "deleteAccount",
+		summary: "Schedule the current user's account for deletion",
+		description:
+			"Signs out every session and clears the auth cookies. The account and its data are erased once `ACCOUNT_DELETION_GRACE_PERIOD` ends; logging in before then cancels the deletion.",
+		auth: true,
+		request: { body: deleteAccountSchema },
+		responses: {
+			202: {
+				description: "Deletion scheduled",
+				schema: withMessage({ deletionScheduledFor: z.string().datetime() }),
+			},
+		},
+		errors: {
+			401: [
+				ErrorCodeEnum.AUTH_INVALID_CREDENTIALS,
+				ErrorCodeEnum.AUTH_ACCOUNT_LOCKED,
+			],
+		},
+	},
+	{
+		method: "get",
+		path: "/me/export",
+		operationId: "exportAccountData",
+		summary: "Download everything stored about the current user",
+		description:
+			"Served as a JSON attachment. `data` holds one entry per module, keyed by module name; secrets and hashes are never included.",
+		auth: true,
+		responses: {
+			200: {
+				description: "Personal data archive",
+				schema: z.object({
+					exportedAt: z.string().datetime(),
+					userId: z.string(),
+					data: z.record(z.unknown()),
+				}),
+			},
+		},
+		errors: { 404: [ErrorCodeEnum.AUTH_USER_NOT_FOUND] },
+	},
+	{
+		method: "post",
+		path: "/me/password",
+		operationId: "changePassword",
+		summary: "Change the password and sign out other sessions",
+		auth: true,
+		request: { body: changePasswordSchema },
+		responses: {
+			200: { description: "Password changed", schema: messageResponseSchema },
+		},
+		errors: {
+			401: [
+				ErrorCodeEnum.AUTH_INVALID_CREDENTIALS,
+				ErrorCodeEnum.AUTH_ACCOUNT_LOCKED,
+			],
+		},
+	},
+	{
+		method: "post",
+		path: "/me/email",
+		operationId: "requestEmailChange",
+		summary: "Send a confirmation code to a new email address",
+		description:
+			"The account keeps its current email until `POST /email-change/confirm` is called with the code.",
+		auth: true,
+		request: { body: changeEmailSchema },
+		responses: {
+			200: {
+				description: "Confirmation email sent",
+				schema: messageResponseSchema,
+			},
+		},
+		errors: {
+			401: [
+				ErrorCodeEnum.AUTH_INVALID_CREDENTIALS,
+				ErrorCodeEnum.AUTH_ACCOUNT_LOCKED,
+			],
+			409: [ErrorCodeEnum.AUTH_EMAIL_ALREADY_EXISTS],
+		},
+	},
+	{
+		method: "post",
+		path: "/email-change/confirm",
+		operationId: "confirmEmailChange",
+		summary: "Switch to the new email address with the emailed code",
+		description:
+			"The previous address receives a code to undo the change for 7 days.",
+		request: { body: emailChangeCodeSchema },
+		responses: {
+			200: {
+				description: "Email changed",
+				schema: withMessage({ user: userResponseSchema }),
+			},
+		},
+		errors: CODE_ERRORS,
+	},
+	{
+		method: "post",
+		path: "/email-change/revert",
+		operationId: "revertEmailChange",
+		summary: "Restore the previous email address and sign out everywhere",
+		request: { body: emailChangeCodeSchema },
+		responses: {
+			200: { description: "Email restored", schema: messageResponseSchema },
+		},
+		errors: CODE_ERRORS,
+	},
+	{
+		method: "get",
+		path: "/",
+		operationId: "searchUsers",
+		summary: "Search users",
+		description:
+			"Requires the `users:read` permission. `filter[search]` matches a prefix of the email or name, case-insensitively.",
+		auth: true,
+		request: { query: listQuerySchema(userListSpec) },
+		responses: {
+			200: {
+				description: "One page of users",
+				schema: pageSchema(userResponseSchema),
+			},
+		},
+		errors: { 403: [ErrorCodeEnum.AUTH_INSUFFICIENT_PERMISSIONS] },
+	},
+	...adminAction({
+		path: "/:userId/disable",
+		operationId: "disableUser",
+		summary: "Disable an account and revoke its sessions",
+		permission: PermissionEnum.USERS_DISABLE,
+		returnsUser: true,
+	}),
+	...adminAction({
+		path: "/:userId/enable",
+		operationId: "enableUser",
+		summary: "Re-enable a disabled account",
+		permission: PermissionEnum.USERS_DISABLE,
+		returnsUser: true,
+	}),
+	...adminAction({
+		path: "/:userId/sessions/revoke",
+		operationId: "revokeUserSessions",
+		summary: "Sign a user out of every session",
+		permission: PermissionEnum.SESSIONS_REVOKE,
+	}),
+	...adminAction({
+		path: "/:userId/mfa/reset",
+		operationId: "resetUserMfa",
+		summary: "Turn off two-factor authentication for a user",
+		permission: PermissionEnum.MFA_RESET,
+		returnsUser: true,
+	}),
+	...adminAction({
+		path: "/:userId/password-reset",
+		operationId: "sendUserPasswordReset",
+		summary: "Email a user a password reset link",
+		permission: PermissionEnum.USERS_RESET_PASSWORD,
+		errors: { 429: [ErrorCodeEnum.RATE_LIMIT_EXCEEDED] },
+	}),
+	...adminAction({
+		method: "put",
+		path: "/:userId/roles",
+		operationId: "assignUserRoles",
+		summary: "Replace a user's roles",
+		permission: PermissionEnum.ROLES_ASSIGN,
+		body: assignRolesSchema,
+		returnsUser: true,
+	}),
+	...adminAction({
+		path: "/:userId/unlock",
+		operationId: "unlockUser",
+		summary: "Lift an account lockout",
+		permission: PermissionEnum.USERS_UNLOCK,
+	}),
+]);
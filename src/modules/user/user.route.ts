@@ -0,0 +1,116 @@
+import { Router } from "express";
+import { PermissionEnum } from "../../common/enums/role.enum";
+import {
+	adminActionSchema,
+	assignRolesSchema,
+	changeEmailSchema,
+	changePasswordSchema,
+	deleteAccountSchema,
+	emailChangeCodeSchema,
+	updateProfileSchema,
+	userIdParamsSchema,
+} from "../../common/validators/user.validator";
+import { validate } from "../../common/validators/validator";
+import {
+	asyncHandler,
+	authenticatedHandler,
+} from "../../middlewares/asyncHandler.middleware";
+import { authenticate } from "../../middlewares/authenticate.middleware";
+import { requirePermission } from "../../middlewares/authorize.middleware";
+import { rateLimit } from "../../middlewares/rateLimit.middleware";
+import { userController } from "./user.controller";
+import { userAdminController } from "./user-admin.controller";
+
+const router = Router();
+
+// Opened from email links, so the code is the only credential
+router.post(
+	"/email-change/confirm",
+	rateLimit("authSensitive"),
+	validate({ body: emailChangeCodeSchema }),
+	asyncHandler(userController.confirmEmailChange),
+);
+router.post(
+	"/email-change/revert",
+	rateLimit("authSensitive"),
+	validate({ body: emailChangeCodeSchema }),
+	asyncHandler(userController.revertEmailChange),
+);
+
+router.use(authenticate, rateLimit("perUser"));
+
+router.get("/me", authenticatedHandler(userController.getMe));
+router.patch(
+	"/me",
+	validate({ body: updateProfileSchema }),
+	authenticatedHandler(userController.updateMe),
+);
+router.delete(
+	"/me",
+	validate({ body: deleteAccountSchema }),
+	authenticatedHandler(userController.deleteMe),
+);
+router.get("/me/export", authenticatedHandler(userController.exportData));
+router.post(
+	"/me/password",
+	validate({ body: changePasswordSchema }),
+	authenticatedHandler(userController.changePassword),
+);
+router.post(
+	"/me/email",
+	validate({ body: changeEmailSchema }),
+	authenticatedHandler(userController.requestEmailChange),
+);
+
+// Support and admin tools; every action requires a `reason`
+const adminAction = { params: userIdParamsSchema, body: adminActionSchema };
+
+router.get(
+	"/",
+	requirePermission(PermissionEnum.USERS_READ),
+	authenticatedHandler(userAdminController.search),
+);
+router.post(
+	"/:userId/disable",
+	requirePermission(PermissionEnum.USERS_DISABLE),
+	validate(adminAction),
+	authenticatedHandler(userAdminController.disable),
+);
+router.post(
+	"/:userId/enable",
+	requirePermission(PermissionEnum.USERS_DISABLE),
+	validate(adminAction),
+	authenticatedHandler(userAdminController.enable),
+);
+router.post(
+	"/:userId/sessions/revoke",
+	requirePermission(PermissionEnum.SESSIONS_REVOKE),
+	validate(adminAction),
+	authenticatedHandler(userAdminController.revokeSessions),
+);
+router.post(
+	"/:userId/mfa/reset",
+	requirePermission(PermissionEnum.MFA_RESET),
+	validate(adminAction),
+	authenticatedHandler(userAdminController.resetMfa),
+);
+router.post(
+	"/:userId/password-reset",
+	requirePermission(PermissionEnum.USERS_RESET_PASSWORD),
+	validate(adminAction),
+	authenticatedHandler(userAdminController.sendPasswordReset),
+);
+router.put(
+	"/:userId/roles",
+	requirePermission(PermissionEnum.ROLES_ASSIGN),
+	validate({ params: userIdParamsSchema, body: assignRolesSchema }),
+	authenticatedHandler(userAdminController.assignRoles),
+);
+router.post(
+	"/:userId/unlock",
+	requirePermission(PermissionEnum.USERS_UNLOCK),
+	validate(adminAction),
+	authenticatedHandler(userAdminController.unlock),
+);
+
+export { router as userRoutes };
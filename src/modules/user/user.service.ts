@@ -0,0 +1,331 @@
+import { AuditEventEnum } from "../../common/enums/audit-event.enum";
+import { ErrorCodeEnum } from "../../common/enums/error-code.enum";
+import { VerificationCodeEnum } from "../../common/enums/verification-code.enum";
+import type {
+	ChangeEmailDto,
+	ChangePasswordDto,
+	UpdateProfileDto,
+} from "../../common/interface/interface";
+import {
+	AuthenticationException,
+	BadRequestException,
+	ConflictException,
+	NotFoundException,
+	TooManyRequestsException,
+} from "../../common/utils/app-error";
+import { fromNow } from "../../common/utils/date-time";
+import { logger } from "../../common/utils/logger";
+import { Env } from "../../configs/env.config";
+import { type UserDocument, UserModel } from "../../database/models/model";
+import { sendTemplate } from "../../mailers/mailer";
+import { auditService } from "../audit/audit.service";
+import { lockoutService } from "../auth/lockout.service";
+import { verificationCodeService } from "../auth/verification-code.service";
+import { sessionService } from "../session/session.service";
+import { personalDataService } from "./personal-data.service";
+
+const EMAIL_CHANGE_TTL = "24h";
+// Long enough for the owner of the old address to notice the change
+const EMAIL_CHANGE_REVERT_TTL = "7d";
+
+const findUser = async (userId: unknown, withPassword = false) => {
+	const query = UserModel.findById(userId);
+	const user = await (withPassword ? query.select("+password") : query);
+	if (!user) {
+		throw new NotFoundException(
+			"User not found",
+			ErrorCodeEnum.AUTH_USER_NOT_FOUND,
+		);
+	}
+	return user;
+};
+
+/**
+ * Re-authenticate a signed-in user before a sensitive change
+ * Wrong passwords count towards the account lockout like failed logins
+ */
+const assertPassword = async (
+	user: UserDocument,
+	password: string,
+	ipAddress?: string,
+) => {
+	await lockoutService.assertNotLocked({ user, ipAddress });
+
+	if (!(await user.comparePassword(password))) {
+		await lockoutService.recordFailure({ user, ipAddress });
+		throw new AuthenticationException(
+			"Password is incorrect",
+			ErrorCodeEnum.AUTH_INVALID_CREDENTIALS,
+		);
+	}
+};
+
+const assertEmailAvailable = async (email: string) => {
+	if (await UserModel.exists({ email })) {
+		throw new ConflictException(
+			"An account with this email already exists",
+			ErrorCodeEnum.AUTH_EMAIL_ALREADY_EXISTS,
+		);
+	}
+};
+
+export const userService = {
+	getProfile: async (userId: string) => {
+		const user = await findUser(userId);
+		return { user };
+	},
+
+	updateProfile: async (userId: string, profile: UpdateProfileDto) => {
+		const user = await findUser(userId);
+
+		for (const [key, value] of Object.entries(profile)) {
+			user.set(key, value ?? undefined);
+		}
+		await user.save();
+
+		return { user };
+	},
+
+	/**
+	 * Re-checks the current password, then signs out every other session
+	 */
+	changePassword: async (
+		userId: string,
+		sessionId: string | undefined,
+		{ currentPassword, newPassword }: ChangePasswordDto,
+		ipAddress?: string,
+	) => {
+		const user = await findUser(userId, true);
+		await assertPassword(user, currentPassword, ipAddress);
+
+		user.password = newPassword;
+		await user.save();
+
+		await sessionService.revokeAllSessions(user._id, sessionId);
+		auditService.record({
+			event: AuditEventEnum.PASSWORD_CHANGE,
+			actorId: user._id,
+		});
+
+		void sendTemplate(
+			"passwordChanged",
+			{ name: user.name, changedAt: new Date() },
+			{ to: user.email, timeZone: user.timezone },
+		).catch((error) => {
+			logger.error("Failed to send password changed email", { error });
+		});
+
+		return { user };
+	},
+
+	/**
+	 * Send a confirmation code to the new address
+	 * The account keeps its current email until the code is used
+	 */
+	requestEmailChange: async (
+		userId: string,
+		{ newEmail, password }: ChangeEmailDto,
+		ipAddress?: string,
+	) => {
+		const user = await findUser(userId, true);
+		await assertPassword(user, password, ipAddress);
+
+		if (newEmail.toLowerCase() === user.email.toLowerCase()) {
+			throw new BadRequestException(
+				"New email must be different from the current one",
+			);
+		}
+		await assertEmailAvailable(newEmail);
+
+		const { code, expiresAt, retryAt } = await verificationCodeService.issue(
+			user._id,
+			VerificationCodeEnum.EMAIL_CHANGE,
+			EMAIL_CHANGE_TTL,
+			{ email: newEmail },
+		);
+		if (!code) {
+			throw new TooManyRequestsException(
+				"Please wait before requesting another email change",
+				ErrorCodeEnum.RATE_LIMIT_EXCEEDED,
+				{ retryAt: retryAt?.toISOString() },
+			);
+		}
+
+		auditService.record({
+			event: AuditEventEnum.EMAIL_CHANGE_REQUEST,
+			actorId: user._id,
+			details: { newEmail },
+		});
+
+		await sendTemplate(
+			"confirmEmailChange",
+			{ name: user.name, code, expiresAt },
+			{ to: newEmail, timeZone: user.timezone },
+		);
+	},
+
+	/**
+	 * Switch to the confirmed address and give the old one a way to undo it
+	 */
+	confirmEmailChange: async (code: string) => {
+		const record = await verificationCodeService.consume(
+			code,
+			VerificationCodeEnum.EMAIL_CHANGE,
+		);
+		if (!record.email) {
+			throw new BadRequestException("Invalid email change code");
+		}
+
+		const user = await findUser(record.userId);
+		// The address may have been registered since the change was requested
+		await assertEmailAvailable(record.email);
+
+		const previousEmail = user.email;
+		user.email = record.email;
+		user.isEmailVerified = true;
+		await user.save();
+		auditService.record({
+			event: AuditEventEnum.EMAIL_CHANGE,
+			targetId: user._id,
+			details: { previousEmail, newEmail: user.email },
+		});
+
+		// Not exclusive, so every change in a row can still be undone
+		const revert = await verificationCodeService.issue(
+			user._id,
+			VerificationCodeEnum.EMAIL_CHANGE_REVERT,
+			EMAIL_CHANGE_REVERT_TTL,
+			{ email: previousEmail, exclusive: false },
+		);
+		if (revert.code) {
+			void sendTemplate(
+				"emailChanged",
+				{
+					name: user.name,
+					newEmail: user.email,
+					code: revert.code,
+					expiresAt: revert.expiresAt,
+				},
+				{ to: previousEmail, timeZone: user.timezone },
+			).catch((error) => {
+				logger.error("Failed to send email changed email", { error });
+			});
+		}
+
+		return { user };
+	},
+
+	/**
+	 * Restore the previous address and sign out everywhere,
+	 * in case the change was made by someone else
+	 */
+	revertEmailChange: async (code: string) => {
+		const record = await verificationCodeService.consume(
+			code,
+			VerificationCodeEnum.EMAIL_CHANGE_REVERT,
+		);
+		if (!record.email) {
+			throw new BadRequestException("Invalid email change code");
+		}
+
+		const user = await findUser(record.userId);
+		if (user.email !== record.email) {
+			await assertEmailAvailable(record.email);
+		}
+
+		const changedEmail = user.email;
+		user.email = record.email;
+		user.isEmailVerified = true;
+		await user.save();
+		auditService.record({
+			event: AuditEventEnum.EMAIL_CHANGE_REVERT,
+			targetId: user._id,
+			details: { revertedEmail: changedEmail, restoredEmail: user.email },
+		});
+
+		await Promise.all([
+			sessionService.revokeAllSessions(user._id),
+			verificationCodeService.revokeUnused(
+				user._id,
+				VerificationCodeEnum.EMAIL_CHANGE,
+			),
+		]);
+
+		return { user };
+	},
+
+	/**
+	 * Everything stored about the user, contributed by each module
+	 */
+	exportData: async (userId: string) => {
+		const user = await findUser(userId);
+		const data = await personalDataService.exportUser(user._id);
+
+		return { exportedAt: new Date(), userId: String(user._id), data };
+	},
+
+	/**
+	 * Sign the user out everywhere and erase the account once the grace
+	 * period ends, unless they log in again before then
+	 */
+	requestDeletion: async (
+		userId: string,
+		password: string,
+		ipAddress?: string,
+	) => {
+		const user = await findUser(userId, true);
+		await assertPassword(user, password, ipAddress);
+
+		if (user.deletion) {
+			throw new BadRequestException("Account deletion is already scheduled");
+		}
+
+		user.deletion = {
+			requestedAt: new Date(),
+			scheduledFor: fromNow(Env.ACCOUNT_DELETION.GRACE_PERIOD),
+		};
+		await user.save();
+
+		await sessionService.revokeAllSessions(user._id);
+		auditService.record({
+			event: AuditEventEnum.ACCOUNT_DELETION_REQUEST,
+			actorId: user._id,
+			details: { scheduledFor: user.deletion.scheduledFor },
+		});
+
+		void sendTemplate(
+			"accountDeletionScheduled",
+			{ name: user.name, scheduledFor: user.deletion.scheduledFor },
+			{ to: user.email, timeZone: user.timezone },
+		).catch((error) => {
+			logger.error("Failed to send account deletion scheduled email", {
+				error,
+			});
+		});
+
+		return { user };
+	},
+
+	/**
+	 * Called on every successful login; a no-op unless deletion is pending
+	 * Accounts the sweeper has already started erasing are left alone.
+	 */
+	cancelDeletion: async (user: UserDocument) => {
+		if (!user.deletion) return;
+
+		const { modifiedCount } = await UserModel.updateOne(
+			{ _id: user._id, "deletion.claimedAt": { $exists: false } },
+			{ $unset: { deletion: 1 } },
+		);
+		if (modifiedCount) {
+			user.deletion = undefined;
+			auditService.record({
+				event: AuditEventEnum.ACCOUNT_DELETION_CANCEL,
+				actorId: user._id,
+			});
+			logger.info("Account deletion cancelled by login", {
+				userId: String(user._id),
+			});
+		}
+	},
+};